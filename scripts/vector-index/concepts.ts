@@ -0,0 +1,85 @@
+import { readFile } from "fs/promises";
+import { radioApiFetch } from "../../server/radioApi.cjs";
+import { conceptId } from "../../server/vectorStore/index.cjs";
+import type { IndexConcept } from "./types";
+
+const toIndexConcept = (value: unknown): IndexConcept | null => {
+  if (!value || typeof value !== "object") return null;
+  const { id, title, genre, description, tracklist } = value as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof title !== "string" ||
+    typeof genre !== "string" ||
+    typeof description !== "string" ||
+    !title ||
+    !genre ||
+    !description
+  ) {
+    return null;
+  }
+  return {
+    id:
+      typeof id === "string" || typeof id === "number" ? String(id) : undefined,
+    title,
+    genre,
+    description,
+    tracklist: typeof tracklist === "string" ? tracklist : undefined,
+  };
+};
+
+/**
+ * Keeps the concepts that have a title, genre and description, first one
+ * wins per datapoint id.
+ */
+export const toIndexConcepts = (values: unknown[], source: string) => {
+  const concepts = new Map<string, IndexConcept>();
+  let skipped = 0;
+  for (const value of values) {
+    const concept = toIndexConcept(value);
+    if (!concept) {
+      skipped++;
+      continue;
+    }
+    const id = conceptId(concept);
+    if (!concepts.has(id)) concepts.set(id, concept);
+  }
+  if (skipped > 0) {
+    console.warn(
+      `Skipped ${skipped} entries of ${source} without a title, genre and description`,
+    );
+  }
+  return [...concepts.values()];
+};
+
+/**
+ * Concepts from a JSON file: one concept, an array of them, or a concept
+ * exported from the app's library (`{ concept: {...} }`).
+ */
+export const readConceptFile = async (path: string) => {
+  const json: unknown = JSON.parse(await readFile(path, "utf8"));
+  const entries = Array.isArray(json) ? json : [json];
+  return toIndexConcepts(
+    entries.map((entry) =>
+      entry && typeof entry === "object" && "concept" in entry
+        ? entry.concept
+        : entry,
+    ),
+    path,
+  );
+};
+
+/**
+ * The most recent `limit` concepts of the concept store (the Radio AI API, or
+ * its mock with MOCK_SERVICES=radio).
+ */
+export const fetchStoredConcepts = async (limit: number) => {
+  const concepts: unknown = await radioApiFetch(
+    `/api/user-concepts/recent?limit=${limit}`,
+  );
+  return toIndexConcepts(
+    Array.isArray(concepts) ? concepts : [],
+    "the concept store",
+  );
+};
@@ -0,0 +1,143 @@
+// Manages the vector index behind gap analysis: the Vertex AI index and
+// endpoint, and the concept datapoints in it (or in the local index with
+// --local). Run with `npm run vector-index -- <command> [options]`.
+import "dotenv/config";
+import { parseArgs } from "util";
+import config from "../../server/config.cjs";
+import { conceptId } from "../../server/vectorStore/index.cjs";
+import { LocalVectorStore } from "../../server/vectorStore/localStore.cjs";
+import { VertexVectorStore } from "../../server/vectorStore/vertexStore.cjs";
+import { fetchStoredConcepts, readConceptFile } from "./concepts";
+import { LocalIndexAdmin } from "./localAdmin";
+import { UsageError, type IndexAdmin, type IndexConcept } from "./types";
+import { VertexIndexAdmin } from "./vertexAdmin";
+
+// Concepts per upsert call (one embedding request and one index update)
+const BATCH_SIZE = 50;
+const DEFAULT_BACKFILL_LIMIT = 1000;
+
+const USAGE = `Usage: npm run vector-index -- <command> [options]
+
+Index and endpoint:
+  create            Create the index and its public endpoint unless they exist
+  status            Show the index, the endpoint and the deployment
+  deploy            Deploy the index to the endpoint unless it is deployed
+  teardown          Undeploy, then delete the endpoint and the index (needs --yes)
+
+Concept datapoints:
+  upsert <file>     Upsert the concepts in a JSON file (a concept, an array of
+                    them, or a concept exported from the app's library)
+  remove <id...>    Remove datapoints by id
+  backfill          Upsert the concepts of the concept store (the Radio AI API)
+
+Options:
+  --local           Use the local index (LOCAL_VECTOR_INDEX_PATH) instead of Vertex AI
+  --dry-run         Show what would change without changing anything
+  --limit <n>       backfill: number of recent concepts to read (default ${DEFAULT_BACKFILL_LIMIT})
+  --yes             Confirm teardown
+  -h, --help        Show this help`;
+
+const upsertConcepts = async (
+  store: LocalVectorStore | VertexVectorStore,
+  concepts: IndexConcept[],
+  dryRun: boolean,
+) => {
+  for (const concept of concepts) {
+    console.log(
+      `${dryRun ? "[dry run] Would upsert" : "Upserting"} ${conceptId(concept)}: "${concept.title}" (${concept.genre})`,
+    );
+  }
+  if (dryRun) return;
+
+  for (let i = 0; i < concepts.length; i += BATCH_SIZE) {
+    await store.upsert(concepts.slice(i, i + BATCH_SIZE));
+  }
+  console.log(
+    `Upserted ${concepts.length} concept${concepts.length === 1 ? "" : "s"} into the ${store.name} index`,
+  );
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      local: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      limit: { type: "string" },
+      yes: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, ...args] = positionals;
+  const dryRun = values["dry-run"];
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Stores are only created for the commands that need them, so `--local`
+  // never loads the Google Cloud clients
+  const createStore = () =>
+    values.local
+      ? new LocalVectorStore(config.vectorStore)
+      : new VertexVectorStore(config.vectorStore);
+  const createAdmin = (): IndexAdmin =>
+    values.local
+      ? new LocalIndexAdmin(new LocalVectorStore(config.vectorStore), dryRun)
+      : new VertexIndexAdmin(dryRun);
+
+  switch (command) {
+    case "create":
+      return createAdmin().create();
+    case "status":
+      return createAdmin().status();
+    case "deploy":
+      return createAdmin().deploy();
+    case "teardown":
+      if (!values.yes && !dryRun) {
+        throw new UsageError(
+          "teardown deletes the index and everything in it. Add --yes to confirm, or --dry-run to see what it would delete.",
+        );
+      }
+      return createAdmin().teardown();
+
+    case "upsert": {
+      if (args.length !== 1) {
+        throw new UsageError("upsert takes one JSON file.");
+      }
+      const concepts = await readConceptFile(args[0]);
+      return upsertConcepts(createStore(), concepts, dryRun);
+    }
+    case "remove": {
+      if (args.length === 0) {
+        throw new UsageError("remove takes one or more datapoint ids.");
+      }
+      for (const id of args) {
+        console.log(`${dryRun ? "[dry run] Would remove" : "Removing"} ${id}`);
+      }
+      if (!dryRun) await createStore().remove(args);
+      return;
+    }
+    case "backfill": {
+      const limit = values.limit
+        ? Number(values.limit)
+        : DEFAULT_BACKFILL_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new UsageError("--limit must be a positive integer.");
+      }
+      const concepts = await fetchStoredConcepts(limit);
+      console.log(`Read ${concepts.length} concepts from the concept store`);
+      return upsertConcepts(createStore(), concepts, dryRun);
+    }
+
+    default:
+      throw new UsageError(`Unknown command "${command}".`);
+  }
+};
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  if (err instanceof UsageError) console.error("\nSee --help for usage.");
+  process.exit(1);
+});
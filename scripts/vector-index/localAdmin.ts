@@ -0,0 +1,69 @@
+import { access, rm } from "fs/promises";
+import type { LocalVectorStore } from "../../server/vectorStore/localStore.cjs";
+import type { IndexAdmin } from "./types";
+
+const exists = (path: string) =>
+  access(path).then(
+    () => true,
+    () => false,
+  );
+
+/**
+ * The local index (VECTOR_STORE=local) is a file the backend reads directly,
+ * so creating it writes an empty index and there is nothing to deploy.
+ */
+export class LocalIndexAdmin implements IndexAdmin {
+  constructor(
+    private readonly store: LocalVectorStore,
+    private readonly dryRun: boolean,
+  ) {}
+
+  async create() {
+    if (await exists(this.store.path)) {
+      const datapoints = await this.store.load();
+      console.log(
+        `Local index exists: ${this.store.path} (${datapoints.size} datapoints)`,
+      );
+      return;
+    }
+    if (this.dryRun) {
+      console.log(`[dry run] Would create local index ${this.store.path}`);
+      return;
+    }
+    await this.store.load();
+    await this.store.save();
+    console.log(
+      `Created local index ${this.store.path} (${this.store.dimensions} dimensions)`,
+    );
+  }
+
+  async status() {
+    if (!(await exists(this.store.path))) {
+      console.log(`Local index: not created (${this.store.path})`);
+      return;
+    }
+    const datapoints = await this.store.load();
+    console.log(`Local index: ${this.store.path}`);
+    console.log(`  Dimensions: ${this.store.dimensions}, dot product`);
+    console.log(`  Datapoints: ${datapoints.size}`);
+  }
+
+  async deploy() {
+    console.log(
+      "The local index is read by the backend directly (VECTOR_STORE=local); nothing to deploy.",
+    );
+  }
+
+  async teardown() {
+    if (!(await exists(this.store.path))) {
+      console.log(`Local index not found: ${this.store.path}`);
+      return;
+    }
+    if (this.dryRun) {
+      console.log(`[dry run] Would delete local index ${this.store.path}`);
+      return;
+    }
+    await rm(this.store.path);
+    console.log(`Deleted local index ${this.store.path}`);
+  }
+}
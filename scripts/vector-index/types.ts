@@ -0,0 +1,26 @@
+/** A concept as it is indexed: embedded text plus the neighbour metadata. */
+export interface IndexConcept {
+  id?: string;
+  title: string;
+  genre: string;
+  description: string;
+  tracklist?: string;
+}
+
+/**
+ * Lifecycle of the index behind gap analysis on one target (Vertex AI or the
+ * local file). With `dryRun`, each step reports what it would change instead.
+ */
+export interface IndexAdmin {
+  create(): Promise<void>;
+  status(): Promise<void>;
+  deploy(): Promise<void>;
+  teardown(): Promise<void>;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
@@ -0,0 +1,282 @@
+import aiplatform, { helpers, type protos } from "@google-cloud/aiplatform";
+import config from "../../server/config.cjs";
+import { UsageError, type IndexAdmin } from "./types";
+
+type Index = protos.google.cloud.aiplatform.v1.IIndex;
+type IndexEndpoint = protos.google.cloud.aiplatform.v1.IIndexEndpoint;
+
+// Display names find the index and endpoint again when their ids aren't
+// configured, which keeps create and deploy idempotent
+const INDEX_DISPLAY_NAME = "similarities";
+const ENDPOINT_DISPLAY_NAME = "similaritiesEndpoint";
+
+const NOT_FOUND = 5;
+
+const resourceId = (name: string) => name.split("/").pop();
+
+const isNotFound = (err: unknown) =>
+  (err as { code?: number })?.code === NOT_FOUND;
+
+/**
+ * The Vertex AI Vector Search index, its public endpoint and the deployment
+ * binding the two (VECTOR_STORE=vertex). Long-running operations are awaited,
+ * so `create` and `deploy` can take a while.
+ */
+export class VertexIndexAdmin implements IndexAdmin {
+  private readonly vertex = config.vectorStore.vertex;
+  private readonly indexes: InstanceType<typeof aiplatform.IndexServiceClient>;
+  private readonly endpoints: InstanceType<
+    typeof aiplatform.IndexEndpointServiceClient
+  >;
+
+  constructor(private readonly dryRun: boolean) {
+    if (!this.vertex.projectId) {
+      throw new UsageError("VERTEX_PROJECT_ID is not configured.");
+    }
+    const apiEndpoint = `${this.vertex.location}-aiplatform.googleapis.com`;
+    this.indexes = new aiplatform.IndexServiceClient({ apiEndpoint });
+    this.endpoints = new aiplatform.IndexEndpointServiceClient({ apiEndpoint });
+  }
+
+  // Missing credentials make the clients throw outside the request's promise,
+  // so they are checked once before the first request
+  private async checkCredentials() {
+    try {
+      await this.indexes.auth.getClient();
+    } catch (err) {
+      throw new Error(
+        `No Google Cloud credentials: ${(err as Error).message}\nRun \`gcloud auth application-default login\` or set GOOGLE_APPLICATION_CREDENTIALS.`,
+      );
+    }
+  }
+
+  private get parent() {
+    return `projects/${this.vertex.projectId}/locations/${this.vertex.location}`;
+  }
+
+  private async findIndex(): Promise<Index | undefined> {
+    if (this.vertex.indexId) {
+      try {
+        const [index] = await this.indexes.getIndex({
+          name: `${this.parent}/indexes/${this.vertex.indexId}`,
+        });
+        return index;
+      } catch (err) {
+        if (isNotFound(err)) return undefined;
+        throw err;
+      }
+    }
+    const [indexes] = await this.indexes.listIndexes({
+      parent: this.parent,
+      filter: `display_name="${INDEX_DISPLAY_NAME}"`,
+    });
+    return indexes[0];
+  }
+
+  private async findEndpoint(): Promise<IndexEndpoint | undefined> {
+    if (this.vertex.indexEndpointId) {
+      try {
+        const [endpoint] = await this.endpoints.getIndexEndpoint({
+          name: `${this.parent}/indexEndpoints/${this.vertex.indexEndpointId}`,
+        });
+        return endpoint;
+      } catch (err) {
+        if (isNotFound(err)) return undefined;
+        throw err;
+      }
+    }
+    const [endpoints] = await this.endpoints.listIndexEndpoints({
+      parent: this.parent,
+      filter: `display_name="${ENDPOINT_DISPLAY_NAME}"`,
+    });
+    return endpoints[0];
+  }
+
+  private announce(action: string) {
+    console.log(
+      this.dryRun
+        ? `[dry run] Would ${action}`
+        : `${action[0].toUpperCase()}${action.slice(1)}...`,
+    );
+  }
+
+  private findDeployment(endpoint: IndexEndpoint | undefined) {
+    return endpoint?.deployedIndexes?.find(
+      (deployed) => deployed.id === this.vertex.deployedIndexId,
+    );
+  }
+
+  async create() {
+    await this.checkCredentials();
+    let index = await this.findIndex();
+    if (index) {
+      console.log(`Index exists: ${index.name}`);
+    } else if (this.dryRun) {
+      console.log(
+        `[dry run] Would create index "${INDEX_DISPLAY_NAME}" (${config.vectorStore.dimensions} dimensions, STREAM_UPDATE, dot product)`,
+      );
+    } else {
+      console.log(`Creating index "${INDEX_DISPLAY_NAME}"...`);
+      const [operation] = await this.indexes.createIndex({
+        parent: this.parent,
+        index: {
+          displayName: INDEX_DISPLAY_NAME,
+          description: "768-dim streaming index for creative gap analysis",
+          indexUpdateMethod: "STREAM_UPDATE",
+          metadata: helpers.toValue({
+            config: {
+              dimensions: config.vectorStore.dimensions,
+              approximateNeighborsCount: 150,
+              distanceMeasureType: "DOT_PRODUCT_DISTANCE",
+              algorithmConfig: { treeAhConfig: {} },
+            },
+          }),
+        },
+      });
+      [index] = await operation.promise();
+      console.log(`Created index ${index.name}`);
+    }
+
+    let endpoint = await this.findEndpoint();
+    if (endpoint) {
+      console.log(`Index endpoint exists: ${endpoint.name}`);
+    } else if (this.dryRun) {
+      console.log(
+        `[dry run] Would create public index endpoint "${ENDPOINT_DISPLAY_NAME}"`,
+      );
+    } else {
+      console.log(`Creating index endpoint "${ENDPOINT_DISPLAY_NAME}"...`);
+      const [operation] = await this.endpoints.createIndexEndpoint({
+        parent: this.parent,
+        indexEndpoint: {
+          displayName: ENDPOINT_DISPLAY_NAME,
+          publicEndpointEnabled: true,
+        },
+      });
+      [endpoint] = await operation.promise();
+      console.log(`Created index endpoint ${endpoint.name}`);
+    }
+
+    if (index?.name && endpoint?.name) {
+      console.log("\nFor the backend's .env:");
+      console.log(`VERTEX_INDEX_ID="${resourceId(index.name)}"`);
+      console.log(`VERTEX_INDEX_ENDPOINT_ID="${resourceId(endpoint.name)}"`);
+    }
+  }
+
+  async status() {
+    await this.checkCredentials();
+    const index = await this.findIndex();
+    if (index) {
+      const metadata = helpers.fromValue(
+        // The generated and the helper's protobuf typings differ on enums
+        index.metadata as Parameters<typeof helpers.fromValue>[0],
+      ) as {
+        config?: { dimensions?: number; distanceMeasureType?: string };
+      } | null;
+      const { dimensions, distanceMeasureType } = metadata?.config ?? {};
+      console.log(`Index: ${index.name}`);
+      console.log(`  Update method: ${index.indexUpdateMethod}`);
+      console.log(`  Dimensions: ${dimensions}, ${distanceMeasureType}`);
+      console.log(`  Datapoints: ${index.indexStats?.vectorsCount ?? 0}`);
+    } else {
+      console.log("Index: not created");
+    }
+
+    const endpoint = await this.findEndpoint();
+    if (!endpoint) {
+      console.log("Index endpoint: not created");
+      return;
+    }
+    console.log(`Index endpoint: ${endpoint.name}`);
+    console.log(
+      `  Public domain: ${endpoint.publicEndpointDomainName || "(none yet)"}`,
+    );
+    const deployment = this.findDeployment(endpoint);
+    console.log(
+      deployment
+        ? `  Deployment "${deployment.id}": ${deployment.index}`
+        : `  Deployment "${this.vertex.deployedIndexId}": not deployed`,
+    );
+  }
+
+  async deploy() {
+    await this.checkCredentials();
+    const [index, endpoint] = await Promise.all([
+      this.findIndex(),
+      this.findEndpoint(),
+    ]);
+    if (!index || !endpoint) {
+      throw new UsageError(
+        "The index and its endpoint don't exist yet. Run `create` first.",
+      );
+    }
+
+    const deployment = this.findDeployment(endpoint);
+    if (deployment) {
+      if (deployment.index !== index.name) {
+        throw new UsageError(
+          `Deployment "${deployment.id}" serves ${deployment.index}, not ${index.name}. Run \`teardown\` or set VERTEX_DEPLOYED_INDEX_ID.`,
+        );
+      }
+      console.log(`Already deployed as "${deployment.id}" on ${endpoint.name}`);
+      return;
+    }
+    if (this.dryRun) {
+      console.log(
+        `[dry run] Would deploy ${index.name} to ${endpoint.name} as "${this.vertex.deployedIndexId}"`,
+      );
+      return;
+    }
+
+    console.log(
+      `Deploying as "${this.vertex.deployedIndexId}" (this can take 30 minutes)...`,
+    );
+    const [operation] = await this.endpoints.deployIndex({
+      indexEndpoint: endpoint.name,
+      deployedIndex: { id: this.vertex.deployedIndexId, index: index.name },
+    });
+    await operation.promise();
+    console.log(`Deployed ${index.name} to ${endpoint.name}`);
+  }
+
+  async teardown() {
+    await this.checkCredentials();
+    const [index, endpoint] = await Promise.all([
+      this.findIndex(),
+      this.findEndpoint(),
+    ]);
+    // An endpoint can only be deleted once nothing is deployed on it
+    for (const deployment of endpoint?.deployedIndexes ?? []) {
+      this.announce(`undeploy "${deployment.id}" from ${endpoint.name}`);
+      if (!this.dryRun) {
+        const [operation] = await this.endpoints.undeployIndex({
+          indexEndpoint: endpoint.name,
+          deployedIndexId: deployment.id,
+        });
+        await operation.promise();
+      }
+    }
+    if (endpoint) {
+      this.announce(`delete index endpoint ${endpoint.name}`);
+      if (!this.dryRun) {
+        const [operation] = await this.endpoints.deleteIndexEndpoint({
+          name: endpoint.name,
+        });
+        await operation.promise();
+      }
+    }
+    if (index) {
+      this.announce(`delete index ${index.name}`);
+      if (!this.dryRun) {
+        const [operation] = await this.indexes.deleteIndex({
+          name: index.name,
+        });
+        await operation.promise();
+      }
+    }
+    if (!index && !endpoint) {
+      console.log("Nothing to tear down.");
+    }
+  }
+}
@@ -0,0 +1,114 @@
+// Backend configuration, read once from the environment (.env is loaded by index.cjs).
+// RADIO_API_URL decides which Radio AI deployment we talk to (local, staging or production).
+const path = require("path");
+
+const MOCKABLE_SERVICES = ["gemini", "simli", "radio"];
+
+// TRUST_PROXY: "true", a hop count or addresses/subnets ("loopback, 10.0.0.0/8"),
+// as Express's "trust proxy" setting takes them
+const parseTrustProxy = (value = "") => {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === "false") return false;
+  if (trimmed === "true") return true;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  return trimmed;
+};
+
+// MOCK_SERVICES="gemini,simli" (or "all") swaps those services for local mocks
+const parseMockServices = (value = "") => {
+  const names = value
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const all = names.includes("all");
+  for (const name of names) {
+    if (name !== "all" && !MOCKABLE_SERVICES.includes(name)) {
+      console.warn(`Ignoring unknown MOCK_SERVICES entry "${name}"`);
+    }
+  }
+  return Object.fromEntries(
+    MOCKABLE_SERVICES.map((name) => [name, all || names.includes(name)]),
+  );
+};
+
+const config = {
+  port: Number(process.env.PORT) || 3001,
+  radioApiUrl: (process.env.RADIO_API_URL || "https://radio69.ai").replace(
+    /\/+$/,
+    "",
+  ),
+  radioApiToken: process.env.RADIO_API_TOKEN || null,
+  // Origins allowed to call the API from a browser, comma-separated. Defaults
+  // to the Vite dev server; the app itself reaches /api through its proxy.
+  corsOrigin: (process.env.CORS_ORIGIN || "http://localhost:5110")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  // Which proxies in front of the backend report the client IP the rate
+  // limits count by. Off by default: every request counts as its direct peer.
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+  // Requests per client IP and minute: token mints (/api/tokens) and cover
+  // generations and edits (/api/images)
+  tokenRateLimit: Number(process.env.TOKEN_RATE_LIMIT) || 20,
+  imageRateLimit: Number(process.env.IMAGE_RATE_LIMIT) || 20,
+
+  // Secrets below never leave the backend; the browser only gets short-lived tokens.
+  geminiApiKey: process.env.GEMINI_API_KEY || null,
+  geminiLiveModel:
+    process.env.GEMINI_LIVE_MODEL ||
+    "models/gemini-2.5-flash-native-audio-latest",
+  geminiImageModel:
+    process.env.GEMINI_IMAGE_MODEL || "gemini-3-pro-image-preview",
+  // Live tokens: a new session must start within `newSessionTtl`, and the
+  // session itself (including resumptions) is accepted for `ttl`.
+  geminiTokenTtlSeconds: Number(process.env.GEMINI_TOKEN_TTL_SECONDS) || 1800,
+  geminiTokenNewSessionTtlSeconds:
+    Number(process.env.GEMINI_TOKEN_NEW_SESSION_TTL_SECONDS) || 60,
+
+  // Gap analysis: scores at or above `rejectAt` are too close to an existing
+  // album, scores below `acceptBelow` are a creative gap, the rest is for
+  // review. Requests can override these per workspace.
+  similarity: {
+    acceptBelow: Number(process.env.SIMILARITY_ACCEPT_BELOW) || 0.4,
+    rejectAt: Number(process.env.SIMILARITY_REJECT_AT) || 0.8,
+    topK: Number(process.env.SIMILARITY_TOP_K) || 5,
+  },
+
+  // Where gap analysis searches and new concepts are indexed (server/vectorStore):
+  // unset leaves both to the Radio AI API, "vertex" uses our Vertex AI index,
+  // "local" a file-backed index that needs no cloud access.
+  vectorStore: {
+    kind: process.env.VECTOR_STORE || null,
+    dimensions: 768,
+    localPath: path.resolve(
+      process.env.LOCAL_VECTOR_INDEX_PATH ||
+        path.join(__dirname, "..", "data", "vector-index.json"),
+    ),
+    embeddingModel:
+      process.env.GEMINI_EMBEDDING_MODEL || "gemini-embedding-001",
+    vertex: {
+      projectId: process.env.VERTEX_PROJECT_ID || null,
+      location: process.env.VERTEX_LOCATION || "us-central1",
+      indexId: process.env.VERTEX_INDEX_ID || null,
+      indexEndpointId: process.env.VERTEX_INDEX_ENDPOINT_ID || null,
+      deployedIndexId:
+        process.env.VERTEX_DEPLOYED_INDEX_ID || "similaritiesDeployment",
+      // Looked up from the index endpoint when not set
+      publicEndpointDomain: process.env.VERTEX_PUBLIC_ENDPOINT_DOMAIN || null,
+    },
+  },
+
+  simliApiKey: process.env.SIMLI_API_KEY || null,
+  simliApiUrl: (process.env.SIMLI_API_URL || "https://api.simli.ai").replace(
+    /\/+$/,
+    "",
+  ),
+  simliFaceId: process.env.SIMLI_FACE_ID || null,
+
+  // Offline development (server/mock): which services are mocked, and the
+  // scenario the mock Gemini Live server plays unless the client picks one.
+  mock: parseMockServices(process.env.MOCK_SERVICES),
+  mockScenario: process.env.MOCK_SCENARIO || "brainstorm",
+};
+
+module.exports = config;
@@ -0,0 +1,28 @@
+const { GoogleGenAI } = require("@google/genai");
+const config = require("./config.cjs");
+
+class ConfigError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "ConfigError";
+    this.status = 500;
+  }
+}
+
+let client = null;
+
+// Ephemeral auth tokens are only available on v1alpha.
+const getGeminiClient = () => {
+  if (!config.geminiApiKey) {
+    throw new ConfigError("GEMINI_API_KEY is not configured on the backend.");
+  }
+  if (!client) {
+    client = new GoogleGenAI({
+      apiKey: config.geminiApiKey,
+      httpOptions: { apiVersion: "v1alpha" },
+    });
+  }
+  return client;
+};
+
+module.exports = { getGeminiClient, ConfigError };
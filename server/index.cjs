@@ -0,0 +1,78 @@
+require("dotenv").config();
+
+const express = require("express");
+const cors = require("cors");
+const config = require("./config.cjs");
+const { RadioApiError } = require("./radioApi.cjs");
+const { rateLimit } = require("./rateLimit.cjs");
+const albumsRouter = require("./routes/albums.cjs");
+const conceptsRouter = require("./routes/concepts.cjs");
+const imagesRouter = require("./routes/images.cjs");
+const tokensRouter = require("./routes/tokens.cjs");
+const { attachMockLiveServer } = require("./mock/liveServer.cjs");
+
+const app = express();
+app.set("trust proxy", config.trustProxy);
+
+app.use(cors({ origin: config.corsOrigin }));
+// Cover edits send the current image back; parsed first so the 1 MB default
+// below doesn't reject them. Limited before parsing, so rejected requests
+// don't cost a 12 MB body.
+app.use(
+  "/api/images",
+  rateLimit({ limit: config.imageRateLimit, windowMs: 60_000 }),
+  express.json({ limit: "12mb" }),
+);
+app.use(express.json({ limit: "1mb" }));
+
+app.get("/api/health", (_req, res) => {
+  res.json({
+    status: "ok",
+    radioApiUrl: config.radioApiUrl,
+    mock: config.mock,
+    vectorStore: config.vectorStore.kind,
+  });
+});
+
+app.use("/api/albums", albumsRouter);
+app.use("/api/user-concepts", conceptsRouter);
+app.use("/api/images", imagesRouter);
+app.use(
+  "/api/tokens",
+  rateLimit({ limit: config.tokenRateLimit, windowMs: 60_000 }),
+  tokensRouter,
+);
+
+app.use("/api", (_req, res) => {
+  res.status(404).json({ error: "Not found" });
+});
+
+// Express 5 forwards rejected promises from async handlers here.
+app.use((err, _req, res, _next) => {
+  console.error("API error:", err.message);
+
+  if (err instanceof RadioApiError) {
+    return res.status(502).json({ error: err.message });
+  }
+
+  // Errors without a status are bugs; their message stays in the log
+  if (!err.status) {
+    return res.status(500).json({ error: "Server error" });
+  }
+  res.status(err.status).json({ error: err.message || "Server error" });
+});
+
+const server = app.listen(config.port, () => {
+  console.log(
+    `Radio AI backend listening on http://localhost:${config.port} (upstream: ${config.radioApiUrl})`,
+  );
+
+  const mocked = Object.keys(config.mock).filter((name) => config.mock[name]);
+  if (mocked.length > 0) {
+    console.log(`Mocked services: ${mocked.join(", ")}`);
+  }
+});
+
+if (config.mock.gemini) {
+  attachMockLiveServer(server, { defaultScenario: config.mockScenario });
+}
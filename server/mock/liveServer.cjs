@@ -0,0 +1,76 @@
+// Mock Gemini Live endpoint for offline development (MOCK_SERVICES=gemini).
+// Accepts any access token and plays a scenario from server/mock/scenarios.
+const crypto = require("crypto");
+const { WebSocketServer } = require("ws");
+const { ScenarioRunner, loadScenario } = require("./scenarioRunner.cjs");
+
+const MOCK_LIVE_PATH = "/api/mock/live";
+
+/**
+ * Resumption handles shared by all connections: handle -> scenario position.
+ */
+const createHandleStore = () => {
+  const positions = new Map();
+  return {
+    save: (position) => {
+      const handle = `mock-${crypto.randomUUID()}`;
+      positions.set(handle, position);
+      return handle;
+    },
+    restore: (handle) => positions.get(handle),
+  };
+};
+
+/**
+ * Serves the mock Live API on `MOCK_LIVE_PATH` of an existing HTTP server.
+ * The scenario comes from the `scenario` query parameter, or `defaultScenario`.
+ */
+const attachMockLiveServer = (server, { defaultScenario }) => {
+  const wss = new WebSocketServer({ server, path: MOCK_LIVE_PATH });
+  // Handles name a position in a scenario, so keep one store per scenario
+  const handleStores = new Map();
+
+  wss.on("connection", (ws, req) => {
+    const url = new URL(req.url, "http://localhost");
+    const name = url.searchParams.get("scenario") || defaultScenario;
+
+    let scenario;
+    try {
+      scenario = loadScenario(name);
+    } catch (err) {
+      console.error("[mock-live]", err.message);
+      ws.close(1008, err.message.slice(0, 120));
+      return;
+    }
+    if (!handleStores.has(name)) handleStores.set(name, createHandleStore());
+
+    console.log(`[mock-live] Connection, scenario "${name}"`);
+    const runner = new ScenarioRunner(scenario, {
+      send: (frame) => {
+        if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(frame));
+      },
+      close: (code, reason) => ws.close(code, reason),
+      handles: handleStores.get(name),
+    });
+
+    ws.on("message", (data) => {
+      let message;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        ws.close(1007, "Invalid JSON");
+        return;
+      }
+      runner.handleMessage(message);
+    });
+
+    ws.on("close", (code) => {
+      console.log(`[mock-live] Closed (${code}), scenario "${name}"`);
+      runner.stop();
+    });
+  });
+
+  return wss;
+};
+
+module.exports = { attachMockLiveServer, MOCK_LIVE_PATH };
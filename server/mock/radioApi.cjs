@@ -0,0 +1,109 @@
+// In-memory stand-in for the Radio AI API (MOCK_SERVICES=radio).
+// Same paths and response shapes as radioApiFetch, so the routes don't change.
+const { RadioApiError } = require("../radioApi.cjs");
+
+const concepts = [
+  {
+    title: "Neon Tide",
+    genre: "Synthwave, Dream Pop",
+    description:
+      "A night drive along a flooded coastal city, glowing signs reflected in the water.",
+    created_at: "2025-01-10T20:00:00.000Z",
+  },
+  {
+    title: "Dust Choir",
+    genre: "Desert Blues, Ambient",
+    description:
+      "Field recordings of wind and sand under slow, hypnotic guitar loops.",
+    created_at: "2025-01-12T20:00:00.000Z",
+  },
+  {
+    title: "Paper Satellites",
+    genre: "Lo-fi Hip Hop, Jazz",
+    description:
+      "Late night study sessions, tape hiss and muted trumpet over dusty drums.",
+    created_at: "2025-01-15T20:00:00.000Z",
+  },
+];
+
+const words = (text) =>
+  new Set(
+    String(text)
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 3),
+  );
+
+// Jaccard overlap of the candidate's words with each existing concept,
+// closest first
+const similarities = (candidate) => {
+  const candidateWords = words(
+    `${candidate.title} ${candidate.genre} ${candidate.description}`,
+  );
+  return concepts
+    .map((concept) => {
+      const conceptWords = words(
+        `${concept.title} ${concept.genre} ${concept.description}`,
+      );
+      const shared = [...candidateWords].filter((w) => conceptWords.has(w));
+      const union = new Set([...candidateWords, ...conceptWords]).size;
+      const score = union > 0 ? shared.length / union : 0;
+      return {
+        title: concept.title,
+        genre: concept.genre,
+        score: Math.round(score * 100) / 100,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
+
+const routes = {
+  "GET /api/user-concepts/recent": (params) => {
+    const limit = Number(params.get("limit")) || 10;
+    return [...concepts].reverse().slice(0, limit);
+  },
+
+  "POST /api/user-concepts": (_params, body) => {
+    const concept = { ...body, created_at: new Date().toISOString() };
+    concepts.push(concept);
+    return concept;
+  },
+
+  // Same default thresholds as the real service: 0.8+ REJECT, < 0.4 ACCEPT
+  "POST /api/albums/similarities-check": (_params, body) => {
+    const ranked = similarities(body);
+    const score = ranked[0]?.score ?? 0;
+    const neighbors = ranked.slice(0, body.top_k ?? 5);
+    if (score >= 0.8) {
+      return { status: "REJECT", reason: "Repetitive theme", score, neighbors };
+    }
+    if (score < 0.4) {
+      return {
+        status: "ACCEPT",
+        reason: "Unique creative gap",
+        score,
+        neighbors,
+      };
+    }
+    return {
+      status: "REVIEW",
+      reason: "Close to an existing album",
+      score,
+      neighbors,
+    };
+  },
+};
+
+/**
+ * Drop-in replacement for radioApiFetch.
+ */
+const mockRadioApiFetch = async (path, { method = "GET", body } = {}) => {
+  const url = new URL(path, "http://localhost");
+  const route = routes[`${method} ${url.pathname}`];
+  if (!route) {
+    throw new RadioApiError(404, `Mock Radio API has no ${method} ${path}`);
+  }
+  return route(url.searchParams, body);
+};
+
+module.exports = { mockRadioApiFetch };
@@ -0,0 +1,384 @@
+// Plays a scenario file as a Gemini Live (BidiGenerateContent) server session.
+// Transport-agnostic: frames go out through `send`, parsed client messages come
+// in through `handleMessage`. liveServer.cjs wires it to a WebSocket.
+const fs = require("fs");
+const path = require("path");
+
+const SCENARIO_DIR = path.join(__dirname, "scenarios");
+
+const OUTPUT_RATE = 24000;
+const CHUNK_MS = 100;
+// Speaking pace of synthesized speech
+const MS_PER_CHAR = 65;
+// Mic audio that counts as a finished user turn when VAD is on
+const DEFAULT_TURN_AUDIO_MS = 2000;
+
+class ScenarioError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "ScenarioError";
+  }
+}
+
+const listScenarios = () =>
+  fs
+    .readdirSync(SCENARIO_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.slice(0, -".json".length))
+    .sort();
+
+/**
+ * Reads `server/mock/scenarios/<name>.json`.
+ * Throws a ScenarioError for unknown names or malformed files.
+ */
+const loadScenario = (name) => {
+  if (!/^[\w-]+$/.test(name)) {
+    throw new ScenarioError(`Invalid scenario name "${name}"`);
+  }
+  const file = path.join(SCENARIO_DIR, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new ScenarioError(
+      `Unknown scenario "${name}". Available: ${listScenarios().join(", ")}`,
+    );
+  }
+
+  const scenario = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(scenario.steps)) {
+    throw new ScenarioError(`Scenario "${name}" has no steps array`);
+  }
+  return { name, ...scenario };
+};
+
+/**
+ * Speech-like PCM: a buzzy 140 Hz voice shaped into ~4 syllables per second,
+ * so the avatar has something to lip-sync to. 16-bit little-endian base64.
+ */
+const synthesizeSpeech = (durationMs, offsetMs = 0) => {
+  const samples = Math.round((OUTPUT_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const t = offsetMs / 1000 + i / OUTPUT_RATE;
+    const syllable = Math.max(0, Math.sin(2 * Math.PI * 4 * t));
+    let voice = 0;
+    for (let h = 1; h <= 4; h++) {
+      voice += Math.sin(2 * Math.PI * 140 * h * t) / h;
+    }
+    const value = 0.15 * syllable * voice;
+    buffer.writeInt16LE(
+      Math.round(Math.max(-1, Math.min(1, value)) * 0x7fff),
+      i * 2,
+    );
+  }
+  return buffer.toString("base64");
+};
+
+// "10s" / "1.5s" (protobuf Duration JSON) to milliseconds
+const parseDuration = (value) => {
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(String(value ?? ""));
+  return match ? Number(match[1]) * 1000 : 0;
+};
+
+/**
+ * Runs one scenario for one connection.
+ *
+ * Steps are objects with one action:
+ *   { "wait": "turn", "audioMs"?, "transcript"? }  user text, activityEnd, or `audioMs` of mic audio
+ *   { "say": "...", "interruptAfterMs"? }         transcribed audio, paced in real time
+ *   { "think": "..." }                            thought text part
+ *   { "toolCall": { "name", "args" }, "id"? }     waits for the matching toolResponse
+ *   { "turnComplete": true }                      generationComplete + turnComplete
+ *   { "interrupted": true }
+ *   { "goAway": "5s" }                            closes the socket when the time is up
+ *   { "close": 1011, "reason"? }                  a resumed session continues after it
+ *   { "delay": ms }
+ *   { "send": { ...raw server frame } }
+ * Once the steps run out, every user turn gets the scenario's `fallback` line.
+ */
+class ScenarioRunner {
+  /**
+   * @param {object} scenario From loadScenario.
+   * @param {object} options
+   * @param {(frame: object) => void} options.send
+   * @param {(code: number, reason: string) => void} options.close
+   * @param {{ save(position: number): string, restore(handle: string): number | undefined }} [options.handles]
+   *   Resumption handle store, shared by all connections.
+   * @param {number} [options.timeScale] Multiplies every delay; 0 runs without waiting.
+   */
+  constructor(scenario, { send, close, handles, timeScale = 1 }) {
+    this.scenario = scenario;
+    this.send = send;
+    this.closeSocket = close;
+    this.handles = handles;
+    this.timeScale = timeScale;
+
+    this.setup = null;
+    this.position = 0;
+    this.stopped = false;
+    this.inbox = [];
+    this.waiter = null;
+    this.audioMs = 0;
+    this.interruptRequested = false;
+    this.callCount = 0;
+    /** Every toolResponse received, in order. */
+    this.toolResponses = [];
+  }
+
+  /** Takes one parsed client message. */
+  handleMessage(message) {
+    if (this.stopped) return;
+
+    if (!this.setup) {
+      if (!message.setup) {
+        this.close(1007, "The first message must be setup");
+        return;
+      }
+      this.start(message.setup);
+      return;
+    }
+
+    if (message.clientContent) {
+      this.push({
+        type: "text",
+        turnComplete: message.clientContent.turnComplete !== false,
+        text: (message.clientContent.turns ?? [])
+          .flatMap((turn) => turn.parts ?? [])
+          .map((part) => part.text ?? "")
+          .join(""),
+      });
+      this.interruptRequested = true;
+    } else if (message.toolResponse) {
+      const responses = message.toolResponse.functionResponses ?? [];
+      this.toolResponses.push(...responses);
+      for (const response of responses) {
+        this.push({ type: "toolResponse", response });
+      }
+    } else if (message.realtimeInput) {
+      const input = message.realtimeInput;
+      if (input.activityStart) this.interruptRequested = true;
+      if (input.activityEnd) this.push({ type: "activityEnd" });
+      if (input.audio?.data) {
+        const rate =
+          Number(/rate=(\d+)/.exec(input.audio.mimeType)?.[1]) || 16000;
+        const bytes = Buffer.byteLength(input.audio.data, "base64");
+        this.audioMs += ((bytes / 2) * 1000) / rate;
+        this.push({ type: "audio" });
+      }
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+    this.waiter?.resolve(null);
+    this.waiter = null;
+  }
+
+  start(setup) {
+    this.setup = setup;
+
+    const handle = setup.sessionResumption?.handle;
+    if (handle) {
+      const position = this.handles?.restore(handle);
+      if (position === undefined) {
+        this.close(1008, "session not found");
+        return;
+      }
+      this.position = position;
+    }
+
+    this.send({ setupComplete: {} });
+    this.issueHandle();
+    this.run().catch((err) => {
+      console.error(
+        `[mock-live] Scenario "${this.scenario.name}" failed:`,
+        err,
+      );
+      this.close(1011, `Scenario error: ${err.message}`);
+    });
+  }
+
+  async run() {
+    const { steps } = this.scenario;
+    while (!this.stopped && this.position < steps.length) {
+      await this.runStep(steps[this.position]);
+      if (this.stopped) return;
+      this.position++;
+    }
+
+    // Out of script: answer every further turn with the fallback line
+    while (!this.stopped && this.scenario.fallback) {
+      if (!(await this.waitForTurn({}))) return;
+      await this.speak(this.scenario.fallback);
+      this.completeTurn();
+    }
+  }
+
+  async runStep(step) {
+    if (step.wait === "turn") {
+      const event = await this.waitForTurn(step);
+      // Spoken turns get the scripted transcript of what the user "said"
+      if (event && event.type !== "text" && step.transcript) {
+        this.sendContent({ inputTranscription: { text: step.transcript } });
+      }
+    } else if (step.wait) {
+      throw new ScenarioError(`Unknown wait "${step.wait}"`);
+    } else if (step.say !== undefined) {
+      await this.speak(step.say, step.interruptAfterMs);
+    } else if (step.think !== undefined) {
+      this.sendContent({
+        modelTurn: {
+          role: "model",
+          parts: [{ text: step.think, thought: true }],
+        },
+      });
+    } else if (step.toolCall) {
+      const id = step.id ?? `mock-call-${++this.callCount}`;
+      this.send({ toolCall: { functionCalls: [{ id, ...step.toolCall }] } });
+      await this.waitFor(
+        (event) => event.type === "toolResponse" && event.response.id === id,
+      );
+    } else if (step.turnComplete) {
+      this.completeTurn();
+    } else if (step.interrupted) {
+      this.sendContent({ interrupted: true });
+    } else if (step.goAway !== undefined) {
+      // Steps after goAway run on the resumed session. The handle goes
+      // first since clients resume as soon as goAway arrives.
+      this.issueHandle(this.position + 1);
+      this.send({ goAway: { timeLeft: step.goAway } });
+      await this.sleep(parseDuration(step.goAway));
+      this.close(1000, "Session time limit reached");
+    } else if (step.close !== undefined) {
+      // Otherwise resuming would replay the drop forever
+      this.issueHandle(this.position + 1);
+      this.close(step.close, step.reason ?? "");
+    } else if (step.delay !== undefined) {
+      await this.sleep(step.delay);
+    } else if (step.send) {
+      this.send(step.send);
+    } else {
+      throw new ScenarioError(`Unknown step ${JSON.stringify(step)}`);
+    }
+  }
+
+  // Audio in CHUNK_MS chunks, with the transcript spread across them
+  async speak(text, interruptAfterMs = Infinity) {
+    const durationMs = Math.max(500, text.length * MS_PER_CHAR);
+    const chunks = Math.ceil(durationMs / CHUNK_MS);
+    const words = text.split(/(?<=\s)/);
+    let sentWords = 0;
+
+    this.interruptRequested = false;
+    for (let i = 0; i < chunks; i++) {
+      if (this.stopped) return;
+      const bargeIn = this.interruptRequested && this.canBeInterrupted();
+      if (bargeIn || i * CHUNK_MS >= interruptAfterMs) {
+        this.sendContent({ interrupted: true });
+        return;
+      }
+
+      const wordsDue = Math.round(((i + 1) / chunks) * words.length);
+      const transcript = words.slice(sentWords, wordsDue).join("");
+      sentWords = wordsDue;
+
+      this.sendContent({
+        modelTurn: {
+          role: "model",
+          parts: [
+            {
+              inlineData: {
+                mimeType: `audio/pcm;rate=${OUTPUT_RATE}`,
+                data: synthesizeSpeech(CHUNK_MS, i * CHUNK_MS),
+              },
+            },
+          ],
+        },
+      });
+      if (transcript) {
+        this.sendContent({ outputTranscription: { text: transcript } });
+      }
+      await this.sleep(CHUNK_MS);
+    }
+  }
+
+  completeTurn() {
+    this.sendContent({ generationComplete: true });
+    this.sendContent({ turnComplete: true });
+    // A resumed session continues after this step
+    this.issueHandle(this.position + 1);
+  }
+
+  canBeInterrupted() {
+    return (
+      this.setup.realtimeInputConfig?.activityHandling !== "NO_INTERRUPTION"
+    );
+  }
+
+  issueHandle(position = this.position) {
+    if (!this.setup.sessionResumption || !this.handles) return;
+    this.send({
+      sessionResumptionUpdate: {
+        newHandle: this.handles.save(position),
+        resumable: true,
+      },
+    });
+  }
+
+  sendContent(serverContent) {
+    this.send({ serverContent });
+  }
+
+  close(code, reason) {
+    if (this.stopped) return;
+    this.stop();
+    this.closeSocket(code, reason);
+  }
+
+  // Resolves with the user's turn: text, push-to-talk release or enough mic audio
+  waitForTurn({ audioMs = DEFAULT_TURN_AUDIO_MS }) {
+    this.audioMs = 0;
+    return this.waitFor(
+      (event) =>
+        (event.type === "text" && event.turnComplete) ||
+        event.type === "activityEnd" ||
+        (event.type === "audio" &&
+          !this.usesManualActivity() &&
+          this.audioMs >= audioMs),
+    );
+  }
+
+  usesManualActivity() {
+    return !!this.setup.realtimeInputConfig?.automaticActivityDetection
+      ?.disabled;
+  }
+
+  waitFor(matches) {
+    const index = this.inbox.findIndex(matches);
+    if (index !== -1) {
+      const [event] = this.inbox.splice(index, 1);
+      return Promise.resolve(event);
+    }
+    return new Promise((resolve) => {
+      this.waiter = { matches, resolve };
+    });
+  }
+
+  push(event) {
+    if (this.waiter?.matches(event)) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(event);
+      return;
+    }
+    // Audio only matters while a turn is awaited
+    if (event.type !== "audio") this.inbox.push(event);
+  }
+
+  sleep(ms) {
+    const delay = ms * this.timeScale;
+    return new Promise((resolve) =>
+      delay > 0 ? setTimeout(resolve, delay) : setImmediate(resolve),
+    );
+  }
+}
+
+module.exports = { ScenarioRunner, ScenarioError, loadScenario, listScenarios };
@@ -0,0 +1,53 @@
+const config = require("./config.cjs");
+
+class RadioApiError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = "RadioApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Forwards a request to the configured Radio AI API and returns the parsed JSON body.
+ * Non-2xx responses are raised as RadioApiError so routes can map them to a status code.
+ * With MOCK_SERVICES=radio, requests go to the in-memory mock instead.
+ */
+const radioApiFetch = async (path, { method = "GET", body } = {}) => {
+  if (config.mock.radio) {
+    // Required lazily: the mock uses RadioApiError from this module
+    const { mockRadioApiFetch } = require("./mock/radioApi.cjs");
+    return mockRadioApiFetch(path, { method, body });
+  }
+
+  const headers = { Accept: "application/json" };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+  if (config.radioApiToken) {
+    headers.Authorization = `Bearer ${config.radioApiToken}`;
+  }
+
+  let response;
+  try {
+    response = await fetch(`${config.radioApiUrl}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  } catch (err) {
+    throw new RadioApiError(
+      502,
+      `Radio API ${method} ${path} unreachable: ${err.message}`,
+    );
+  }
+
+  if (!response.ok) {
+    throw new RadioApiError(
+      response.status,
+      `Radio API ${method} ${path} failed: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  return response.json();
+};
+
+module.exports = { radioApiFetch, RadioApiError };
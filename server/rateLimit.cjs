@@ -0,0 +1,35 @@
+// Per-IP request limit over a fixed window, for routes that spend quota on
+// every call (minting Gemini and Simli tokens, generating covers). Counts are
+// kept in memory, so the limit applies per backend process. Behind a reverse
+// proxy `req.ip` is only the client's when TRUST_PROXY is set.
+const rateLimit = ({ limit, windowMs }) => {
+  const windows = new Map();
+  let nextSweep = Date.now() + windowMs;
+
+  return (req, res, next) => {
+    const now = Date.now();
+    if (now >= nextSweep) {
+      for (const [ip, window] of windows) {
+        if (window.resetAt <= now) windows.delete(ip);
+      }
+      nextSweep = now + windowMs;
+    }
+
+    let window = windows.get(req.ip);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(req.ip, window);
+    }
+    window.count++;
+
+    if (window.count > limit) {
+      res.set("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+      return res
+        .status(429)
+        .json({ error: "Too many requests. Try again in a minute." });
+    }
+    next();
+  };
+};
+
+module.exports = { rateLimit };
@@ -0,0 +1,128 @@
+const express = require("express");
+const config = require("../config.cjs");
+const { radioApiFetch } = require("../radioApi.cjs");
+const { getVectorStore } = require("../vectorStore/index.cjs");
+
+const router = express.Router();
+
+const MAX_TOP_K = 10;
+
+const isPlainObject = (value) =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isScore = (value) =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  value >= 0 &&
+  value <= 1;
+
+// Status from our thresholds, whatever the upstream service used
+const classify = (score, { acceptBelow, rejectAt }) => {
+  if (score >= rejectAt)
+    return { status: "REJECT", reason: "Repetitive theme" };
+  if (score < acceptBelow) {
+    return { status: "ACCEPT", reason: "Unique creative gap" };
+  }
+  return { status: "REVIEW", reason: "Close to an existing album" };
+};
+
+const toNeighbors = (neighbors, topK) =>
+  (Array.isArray(neighbors) ? neighbors : [])
+    .filter((n) => n && typeof n.title === "string" && isScore(n.score))
+    .map(({ title, genre, score }) => ({ title, genre, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+/**
+ * POST /api/albums/similarities-check
+ * Body: { title, genre, description, tracklist?, thresholds?, topK? }
+ * `thresholds` ({ acceptBelow, rejectAt }) and `topK` default to the backend
+ * config (SIMILARITY_*).
+ * Returns { status: "REJECT" | "REVIEW" | "ACCEPT", reason, score, thresholds,
+ * neighbors }, `neighbors` being the closest existing concepts with their
+ * scores, closest first. Searched in VECTOR_STORE when set, the same
+ * thresholds applying to either store.
+ */
+router.post("/similarities-check", async (req, res) => {
+  const {
+    title,
+    genre,
+    description,
+    tracklist,
+    thresholds = {},
+    topK,
+  } = req.body || {};
+
+  if (!title || !genre || !description) {
+    return res
+      .status(400)
+      .json({ error: "title, genre and description are required" });
+  }
+  if (!isPlainObject(thresholds)) {
+    return res.status(400).json({
+      error: "thresholds must be an object: { acceptBelow, rejectAt }",
+    });
+  }
+
+  const applied = {
+    acceptBelow: thresholds.acceptBelow ?? config.similarity.acceptBelow,
+    rejectAt: thresholds.rejectAt ?? config.similarity.rejectAt,
+  };
+  if (
+    !isScore(applied.acceptBelow) ||
+    !isScore(applied.rejectAt) ||
+    applied.acceptBelow >= applied.rejectAt
+  ) {
+    return res.status(400).json({
+      error:
+        "thresholds.acceptBelow and thresholds.rejectAt must be between 0 and 1, acceptBelow below rejectAt",
+    });
+  }
+  const k = topK ?? config.similarity.topK;
+  if (!Number.isInteger(k) || k < 1 || k > MAX_TOP_K) {
+    return res
+      .status(400)
+      .json({ error: `topK must be a positive integer up to ${MAX_TOP_K}` });
+  }
+
+  // With a vector store of our own the closest neighbour is the score;
+  // otherwise the Radio AI API searches its index
+  const store = getVectorStore();
+  let result;
+  if (store) {
+    const neighbors = await store.query(
+      { title, genre, description, tracklist },
+      k,
+    );
+    result = { score: neighbors[0]?.score ?? 0, neighbors };
+  } else {
+    result = await radioApiFetch("/api/albums/similarities-check", {
+      method: "POST",
+      // The Radio AI API reads the tracklist as part of the description
+      body: {
+        title,
+        genre,
+        description: tracklist ? `${description}\n${tracklist}` : description,
+        top_k: k,
+      },
+    });
+  }
+
+  const score = Number(result?.score) || 0;
+  const { status, reason } = classify(score, applied);
+  // Upstream reasons are more specific, as long as it came to the same status
+  console.log(
+    `Similarity check for "${title}": [${status}] score ${score} (${store ? `${store.name} index` : `upstream ${result?.status}`})`,
+  );
+
+  res.json({
+    status,
+    reason:
+      result?.status === status && result?.reason ? result.reason : reason,
+    score,
+    thresholds: applied,
+    neighbors: toNeighbors(result?.neighbors, k),
+  });
+});
+
+module.exports = router;
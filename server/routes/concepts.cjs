@@ -0,0 +1,110 @@
+const express = require("express");
+const { radioApiFetch, RadioApiError } = require("../radioApi.cjs");
+const { getVectorStore } = require("../vectorStore/index.cjs");
+
+const router = express.Router();
+
+const MAX_RECENT_LIMIT = 50;
+
+// With VECTOR_STORE=local the index also holds the concepts, so the routes
+// keep working when the Radio AI API is unreachable or failing
+const localFallback = (err) => {
+  const store = getVectorStore();
+  if (store?.name !== "local") return null;
+  if (!(err instanceof RadioApiError) || err.status < 500) return null;
+  console.warn(
+    `Radio AI API unavailable, using the local index: ${err.message}`,
+  );
+  return store;
+};
+
+/**
+ * GET /api/user-concepts/recent
+ * Query: `username`, `limit` (default 10, max 50)
+ * Served from the local index (without the `username` filter) when
+ * VECTOR_STORE=local and the Radio AI API is unavailable.
+ */
+router.get("/recent", async (req, res) => {
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || 10, 1),
+    MAX_RECENT_LIMIT,
+  );
+
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (typeof req.query.username === "string" && req.query.username) {
+    params.set("username", req.query.username);
+  }
+
+  let concepts;
+  try {
+    concepts = await radioApiFetch(
+      `/api/user-concepts/recent?${params.toString()}`,
+    );
+  } catch (err) {
+    const store = localFallback(err);
+    if (!store) throw err;
+    concepts = await store.recent(limit);
+  }
+
+  res.json(Array.isArray(concepts) ? concepts : []);
+});
+
+/**
+ * POST /api/user-concepts
+ * Body: { title, genre, description, tracklist, instrumental, art_prompt }
+ * Creates a concept so it becomes part of the producer's repertoire, and
+ * upserts it into VECTOR_STORE when set. With VECTOR_STORE=local an
+ * unavailable Radio AI API isn't an error: the local index keeps the concept.
+ */
+router.post("/", async (req, res) => {
+  const { title, genre, description, tracklist, instrumental, art_prompt } =
+    req.body || {};
+
+  if (!title || !genre || !description) {
+    return res
+      .status(400)
+      .json({ error: "title, genre and description are required" });
+  }
+
+  const concept = {
+    title,
+    genre,
+    description,
+    tracklist: tracklist || "",
+    instrumental: Boolean(instrumental),
+    art_prompt: art_prompt || "",
+  };
+
+  let created;
+  let offline = false;
+  try {
+    created = await radioApiFetch("/api/user-concepts", {
+      method: "POST",
+      body: concept,
+    });
+  } catch (err) {
+    if (!localFallback(err)) throw err;
+    offline = true;
+    created = { ...concept, created_at: new Date().toISOString() };
+  }
+
+  // Once the Radio AI API has the concept, one missing from the index only
+  // makes gap analysis blind to it. Offline, the index is all there is.
+  const store = getVectorStore();
+  if (store) {
+    try {
+      await store.upsert([
+        { ...concept, id: created?.id, created_at: created?.created_at },
+      ]);
+    } catch (err) {
+      if (offline) throw err;
+      console.error(`Concept "${title}" not indexed:`, err.message);
+    }
+  }
+
+  console.log(`Concept created: "${title}" (${genre})`);
+
+  res.status(201).json(created);
+});
+
+module.exports = router;
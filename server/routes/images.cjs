@@ -0,0 +1,99 @@
+const express = require("express");
+const config = require("../config.cjs");
+const { getGeminiClient } = require("../gemini.cjs");
+
+const router = express.Router();
+
+// Aspect ratios the image model accepts, as "width:height"
+const ASPECT_RATIOS = ["1:1", "4:5", "3:4", "2:3", "16:9", "9:16"];
+
+// Placeholder cover for MOCK_SERVICES=gemini: a gradient seeded by the prompt,
+// sized to the aspect ratio. Edits are labelled so variants can be told apart.
+const mockCover = (prompt, aspectRatio, isEdit) => {
+  const hash = [...prompt].reduce(
+    (h, c) => (h * 31 + c.charCodeAt(0)) >>> 0,
+    7,
+  );
+  const hue = hash % 360;
+  const [w, h] = aspectRatio.split(":").map(Number);
+  const width = w >= h ? 1024 : Math.round((1024 * w) / h);
+  const height = h >= w ? 1024 : Math.round((1024 * h) / w);
+  const label = isEdit ? "MOCK EDIT" : "MOCK COVER";
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue},70%,45%)"/>
+<stop offset="1" stop-color="hsl(${(hue + 120) % 360},70%,20%)"/>
+</linearGradient></defs>
+<rect width="${width}" height="${height}" fill="url(#g)"/>
+<text x="${width / 2}" y="${height / 2 + 28}" font-family="sans-serif" font-size="64" fill="white" text-anchor="middle" opacity="0.8">${label}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+};
+
+/**
+ * POST /api/images/generate
+ * Body: { prompt, aspectRatio?, image? }
+ * `aspectRatio` defaults to 1:1. With `image` ({ mimeType, data } in base64)
+ * the prompt is an edit instruction applied to that image.
+ * Returns { image } as a base64 data URI.
+ */
+router.post("/generate", async (req, res) => {
+  const { prompt, aspectRatio = "1:1", image } = req.body ?? {};
+  if (!prompt || typeof prompt !== "string") {
+    return res.status(400).json({ error: "prompt is required" });
+  }
+  if (!ASPECT_RATIOS.includes(aspectRatio)) {
+    return res.status(400).json({
+      error: `aspectRatio must be one of ${ASPECT_RATIOS.join(", ")}`,
+    });
+  }
+  if (
+    image !== undefined &&
+    (typeof image?.mimeType !== "string" || typeof image?.data !== "string")
+  ) {
+    return res
+      .status(400)
+      .json({ error: "image must be { mimeType, data } with base64 data" });
+  }
+
+  if (config.mock.gemini) {
+    return res.json({ image: mockCover(prompt, aspectRatio, !!image) });
+  }
+
+  const ai = getGeminiClient();
+  const response = await ai.models.generateContent({
+    model: config.geminiImageModel,
+    contents: [
+      {
+        parts: image
+          ? [{ inlineData: image }, { text: prompt }]
+          : [{ text: prompt }],
+      },
+    ],
+    config: {
+      responseModalities: ["IMAGE"],
+      imageConfig: {
+        aspectRatio,
+        imageSize: "1K",
+      },
+    },
+  });
+
+  // Find the inlineData part which contains the image
+  const imagePart = response.candidates?.[0]?.content?.parts?.find((part) =>
+    part.inlineData?.mimeType?.startsWith("image/"),
+  );
+
+  if (!imagePart) {
+    console.log(
+      "Gemini response missing image data:",
+      JSON.stringify(response),
+    );
+    return res.status(502).json({ error: "No image generated by Gemini." });
+  }
+
+  const { mimeType, data } = imagePart.inlineData;
+  res.json({ image: `data:${mimeType};base64,${data}` });
+});
+
+module.exports = router;
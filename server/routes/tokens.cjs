@@ -0,0 +1,105 @@
+const express = require("express");
+const config = require("../config.cjs");
+const { getGeminiClient, ConfigError } = require("../gemini.cjs");
+const { MOCK_LIVE_PATH } = require("../mock/liveServer.cjs");
+
+const router = express.Router();
+
+const DEFAULT_ICE_SERVERS = [{ urls: ["stun:stun.l.google.com:19302"] }];
+
+/**
+ * POST /api/tokens/gemini
+ * Mints a single-use Gemini Live auth token locked to the configured model.
+ * Returns { token, model, expireTime }. Resuming a session does not count as a use,
+ * but every fresh connection needs a new token.
+ * Mocked, it also returns the `url` of the local mock server. Body: { scenario? }
+ */
+router.post("/gemini", async (req, res) => {
+  const now = Date.now();
+  const expireTime = new Date(
+    now + config.geminiTokenTtlSeconds * 1000,
+  ).toISOString();
+
+  if (config.mock.gemini) {
+    const params = new URLSearchParams({
+      scenario: req.body?.scenario || config.mockScenario,
+    });
+    return res.json({
+      token: "mock-token",
+      model: config.geminiLiveModel,
+      expireTime,
+      url: `${MOCK_LIVE_PATH}?${params}`,
+    });
+  }
+
+  const ai = getGeminiClient();
+
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime,
+      newSessionExpireTime: new Date(
+        now + config.geminiTokenNewSessionTtlSeconds * 1000,
+      ).toISOString(),
+      liveConnectConstraints: { model: config.geminiLiveModel },
+    },
+  });
+
+  res.json({ token: token.name, model: config.geminiLiveModel, expireTime });
+});
+
+/**
+ * POST /api/tokens/simli
+ * Body: { faceId? } (defaults to SIMLI_FACE_ID)
+ * Returns { sessionToken, iceServers } for a new Simli avatar session.
+ * Mocked, it returns { mock: true } and the client uses its stub avatar.
+ */
+router.post("/simli", async (req, res) => {
+  if (config.mock.simli) {
+    return res.json({ sessionToken: "mock-token", iceServers: [], mock: true });
+  }
+
+  if (!config.simliApiKey) {
+    throw new ConfigError("SIMLI_API_KEY is not configured on the backend.");
+  }
+
+  const faceId = req.body?.faceId || config.simliFaceId;
+  if (!faceId) {
+    return res.status(400).json({ error: "faceId is required" });
+  }
+
+  const tokenResp = await fetch(`${config.simliApiUrl}/compose/token`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-simli-api-key": config.simliApiKey,
+    },
+    body: JSON.stringify({
+      faceId,
+      handleSilence: true,
+      maxSessionLength: 3600,
+      maxIdleTime: 600,
+    }),
+  });
+  if (!tokenResp.ok) {
+    return res
+      .status(502)
+      .json({ error: `Failed to get Simli token: ${tokenResp.status}` });
+  }
+  const tokenData = await tokenResp.json();
+
+  let iceServers = DEFAULT_ICE_SERVERS;
+  try {
+    const iceResp = await fetch(`${config.simliApiUrl}/compose/ice`, {
+      method: "GET",
+      headers: { "x-simli-api-key": config.simliApiKey },
+    });
+    if (iceResp.ok) iceServers = await iceResp.json();
+  } catch (err) {
+    console.warn("Simli ICE lookup failed, using public STUN:", err.message);
+  }
+
+  res.json({ sessionToken: tokenData.session_token, iceServers });
+});
+
+module.exports = router;
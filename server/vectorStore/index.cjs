@@ -0,0 +1,85 @@
+// Vector store behind gap analysis: the similarity check searches it and new
+// concepts are upserted into it. Two implementations share the contract below,
+// `VertexVectorStore` (our Vertex AI streaming index) and `LocalVectorStore`
+// (an exact dot-product index in a JSON file, for laptops without cloud access).
+//
+// A store has:
+//   upsert(concepts)       embeds and stores { id, title, genre, description,
+//                          tracklist }
+//   query(candidate, topK) closest concepts first, as { id, title, genre, score }
+//   remove(ids)            drops datapoints by id
+//
+// Vectors are 768-dim and unit length, so the dot product is the cosine
+// similarity. `toScore` turns it into the 0-1 score the thresholds apply to,
+// the same way for both stores.
+const crypto = require("crypto");
+const config = require("../config.cjs");
+
+const VECTOR_STORES = ["vertex", "local"];
+
+class VectorStoreError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = "VectorStoreError";
+    this.status = status;
+  }
+}
+
+// What gets embedded, for a saved concept and a candidate alike, so the same
+// concept always scores 1 against itself
+const conceptText = ({ title, genre, description, tracklist }) =>
+  [title, genre, description, tracklist].filter(Boolean).join("\n");
+
+// Concepts the Radio AI API returns without an id are keyed by title and genre
+const conceptId = ({ id = null, title, genre }) =>
+  id != null
+    ? String(id)
+    : crypto
+        .createHash("sha256")
+        .update(`${title}\n${genre}`.toLowerCase())
+        .digest("hex")
+        .slice(0, 16);
+
+const toScore = (dotProduct) =>
+  Math.round(Math.min(1, Math.max(0, Number(dotProduct) || 0)) * 100) / 100;
+
+const normalize = (vector) => {
+  const norm = Math.hypot(...vector);
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+};
+
+let store;
+
+/**
+ * The configured store (VECTOR_STORE), created on first use, or null when the
+ * Radio AI API does the indexing.
+ */
+const getVectorStore = () => {
+  if (store !== undefined) return store;
+
+  const { kind } = config.vectorStore;
+  if (kind && !VECTOR_STORES.includes(kind)) {
+    console.warn(`Ignoring unknown VECTOR_STORE "${kind}"`);
+  }
+  // Required lazily: the implementations use the helpers above, and only
+  // the Vertex one needs the Google Cloud client
+  if (kind === "vertex") {
+    const { VertexVectorStore } = require("./vertexStore.cjs");
+    store = new VertexVectorStore(config.vectorStore);
+  } else if (kind === "local") {
+    const { LocalVectorStore } = require("./localStore.cjs");
+    store = new LocalVectorStore(config.vectorStore);
+  } else {
+    store = null;
+  }
+  return store;
+};
+
+module.exports = {
+  getVectorStore,
+  VectorStoreError,
+  conceptId,
+  conceptText,
+  toScore,
+  normalize,
+};
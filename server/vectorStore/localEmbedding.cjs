@@ -0,0 +1,57 @@
+// Deterministic stand-in for the embedding model, so the local index needs no
+// API key. Feature hashing: every word and pair of neighbouring words is
+// hashed to one dimension with a sign, and the vector is normalized. Texts
+// sharing vocabulary score high, the same text scores 1. It has no notion of
+// meaning, so scores are only comparable with other local embeddings.
+const { normalize } = require("./index.cjs");
+
+const STOP_WORDS = new Set([
+  "and",
+  "the",
+  "with",
+  "for",
+  "from",
+  "into",
+  "over",
+  "under",
+  "that",
+  "this",
+  "its",
+]);
+
+// 32-bit FNV-1a
+const hash = (text) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const tokenize = (text) =>
+  String(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+
+const addFeature = (vector, feature, weight) => {
+  const h = hash(feature);
+  // Low bits pick the dimension, the top bit the sign
+  vector[h % vector.length] += h & 0x80000000 ? -weight : weight;
+};
+
+/**
+ * Embeds `text` as a unit vector of `dimensions` numbers.
+ */
+const embedLocally = (text, dimensions) => {
+  const vector = new Array(dimensions).fill(0);
+  const words = tokenize(text);
+  words.forEach((word, i) => {
+    addFeature(vector, word, 1);
+    if (i > 0) addFeature(vector, `${words[i - 1]} ${word}`, 0.5);
+  });
+  return normalize(vector);
+};
+
+module.exports = { embedLocally };
@@ -0,0 +1,150 @@
+// File-backed vector index (VECTOR_STORE=local). Exact dot-product search over
+// every datapoint, which is plenty for one producer's repertoire. The index is
+// read on first use and rewritten after each change. Datapoints keep the whole
+// concept, art prompt and instrumental flag included, so the concept routes
+// can serve it when the Radio AI API is out of reach.
+const fs = require("fs");
+const path = require("path");
+const {
+  VectorStoreError,
+  conceptId,
+  conceptText,
+  toScore,
+} = require("./index.cjs");
+const { embedLocally } = require("./localEmbedding.cjs");
+
+const dot = (a, b) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+class LocalVectorStore {
+  constructor({ localPath, dimensions }) {
+    this.name = "local";
+    this.path = localPath;
+    this.dimensions = dimensions;
+    this.datapoints = null;
+    this.loading = null;
+    // Writes run one after another so an older index never overwrites a newer one
+    this.writing = Promise.resolve();
+  }
+
+  embed(text) {
+    return embedLocally(text, this.dimensions);
+  }
+
+  // Concurrent first requests share one read
+  load() {
+    if (!this.loading) {
+      this.loading = this.read().catch((err) => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  async read() {
+    let saved;
+    try {
+      saved = JSON.parse(await fs.promises.readFile(this.path, "utf8"));
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        throw new VectorStoreError(
+          500,
+          `Local vector index ${this.path} is unreadable: ${err.message}`,
+        );
+      }
+      saved = { dimensions: this.dimensions, datapoints: [] };
+    }
+    if (saved.dimensions !== this.dimensions) {
+      throw new VectorStoreError(
+        500,
+        `Local vector index ${this.path} has ${saved.dimensions} dimensions, expected ${this.dimensions}`,
+      );
+    }
+
+    this.datapoints = new Map(saved.datapoints.map((dp) => [dp.id, dp]));
+    return this.datapoints;
+  }
+
+  save() {
+    const body = JSON.stringify({
+      dimensions: this.dimensions,
+      datapoints: [...this.datapoints.values()],
+    });
+    const write = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.path), { recursive: true });
+      // Write then rename, so a crash never leaves half an index behind
+      const tmp = `${this.path}.tmp`;
+      await fs.promises.writeFile(tmp, body);
+      await fs.promises.rename(tmp, this.path);
+    });
+    // A failed write is reported to its caller and doesn't block the next one
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  async upsert(concepts) {
+    const datapoints = await this.load();
+    for (const concept of concepts) {
+      const id = conceptId(concept);
+      datapoints.set(id, {
+        id,
+        title: concept.title,
+        genre: concept.genre,
+        description: concept.description,
+        tracklist: concept.tracklist || "",
+        instrumental: Boolean(concept.instrumental),
+        art_prompt: concept.art_prompt || "",
+        created_at:
+          concept.created_at ??
+          datapoints.get(id)?.created_at ??
+          new Date().toISOString(),
+        vector: this.embed(conceptText(concept)),
+      });
+    }
+    await this.save();
+  }
+
+  async query(candidate, topK) {
+    const datapoints = await this.load();
+    const vector = this.embed(conceptText(candidate));
+    return [...datapoints.values()]
+      .map(({ id, title, genre, vector: other }) => ({
+        id,
+        title,
+        genre,
+        score: dot(vector, other),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map((neighbor) => ({ ...neighbor, score: toScore(neighbor.score) }));
+  }
+
+  /**
+   * The latest `limit` concepts, newest first, in the Radio AI API's shape.
+   */
+  async recent(limit) {
+    const datapoints = await this.load();
+    // Datapoints indexed before instrumental and art_prompt were kept get
+    // the defaults the concept routes use
+    return [...datapoints.values()]
+      .sort((a, b) => String(b.created_at).localeCompare(a.created_at))
+      .slice(0, limit)
+      .map(({ vector: _vector, ...concept }) => ({
+        instrumental: false,
+        art_prompt: "",
+        ...concept,
+      }));
+  }
+
+  async remove(ids) {
+    const datapoints = await this.load();
+    for (const id of ids) datapoints.delete(id);
+    await this.save();
+  }
+}
+
+module.exports = { LocalVectorStore };
@@ -0,0 +1,206 @@
+// Vertex AI Vector Search (VECTOR_STORE=vertex): the 768-dim STREAM_UPDATE
+// index with dot-product distance that `npm run vector-index -- create` sets up.
+// Concepts are embedded with the Gemini embedding model, upserted through
+// IndexServiceClient and queried through MatchServiceClient on the deployed
+// index's public endpoint. Title and genre travel as datapoint metadata.
+const { IndexEndpointServiceClient, IndexServiceClient, MatchServiceClient } =
+  require("@google-cloud/aiplatform").v1;
+const { getGeminiClient, ConfigError } = require("../gemini.cjs");
+const {
+  VectorStoreError,
+  conceptId,
+  conceptText,
+  normalize,
+  toScore,
+} = require("./index.cjs");
+
+const toStruct = (values) => ({
+  fields: Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      { stringValue: String(value ?? "") },
+    ]),
+  ),
+});
+
+const fromStruct = (struct) =>
+  Object.fromEntries(
+    Object.entries(struct?.fields ?? {}).map(([key, value]) => [
+      key,
+      value.stringValue,
+    ]),
+  );
+
+class VertexVectorStore {
+  constructor({ dimensions, embeddingModel, vertex }) {
+    this.name = "vertex";
+    this.dimensions = dimensions;
+    this.embeddingModel = embeddingModel;
+    this.vertex = vertex;
+    this.credentials = null;
+    this.indexClient = null;
+    this.matchClient = null;
+  }
+
+  get apiEndpoint() {
+    return `${this.vertex.location}-aiplatform.googleapis.com`;
+  }
+
+  get indexName() {
+    const { projectId, location, indexId } = this.vertex;
+    return `projects/${projectId}/locations/${location}/indexes/${indexId}`;
+  }
+
+  get indexEndpointName() {
+    const { projectId, location, indexEndpointId } = this.vertex;
+    return `projects/${projectId}/locations/${location}/indexEndpoints/${indexEndpointId}`;
+  }
+
+  requireConfig(...keys) {
+    const missing = keys.filter((key) => !this.vertex[key]);
+    if (missing.length > 0) {
+      const names = missing.map(
+        (key) =>
+          `VERTEX_${key.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()}`,
+      );
+      throw new ConfigError(
+        `${names.join(", ")} must be configured for VECTOR_STORE=vertex.`,
+      );
+    }
+  }
+
+  // Google Cloud errors carry gRPC codes, not HTTP statuses
+  async call(what, fn) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (err instanceof ConfigError) throw err;
+      throw new VectorStoreError(
+        502,
+        `Vertex AI ${what} failed: ${err.message}`,
+      );
+    }
+  }
+
+  async embed(texts) {
+    const response = await this.call("embedding", () =>
+      getGeminiClient().models.embedContent({
+        model: this.embeddingModel,
+        contents: texts,
+        config: {
+          taskType: "SEMANTIC_SIMILARITY",
+          outputDimensionality: this.dimensions,
+        },
+      }),
+    );
+    // Truncated embeddings aren't unit length; the dot product needs them to be
+    return response.embeddings.map(({ values }) => normalize(values));
+  }
+
+  // Without credentials the Google Cloud clients throw outside the request's
+  // promise, which would take the backend down; check them up front instead
+  async checkCredentials(client) {
+    if (!this.credentials) {
+      this.credentials = this.call("authentication", () =>
+        client.auth.getClient(),
+      ).catch((err) => {
+        this.credentials = null;
+        throw err;
+      });
+    }
+    await this.credentials;
+  }
+
+  async getIndexClient() {
+    this.requireConfig("projectId", "indexId");
+    if (!this.indexClient) {
+      const client = new IndexServiceClient({ apiEndpoint: this.apiEndpoint });
+      await this.checkCredentials(client);
+      this.indexClient = client;
+    }
+    return this.indexClient;
+  }
+
+  // Queries go to the deployed index's own public endpoint domain
+  async getMatchClient() {
+    if (this.matchClient) return this.matchClient;
+
+    this.requireConfig("projectId", "indexEndpointId");
+    let domain = this.vertex.publicEndpointDomain;
+    if (!domain) {
+      const endpoints = new IndexEndpointServiceClient({
+        apiEndpoint: this.apiEndpoint,
+      });
+      await this.checkCredentials(endpoints);
+      const [endpoint] = await this.call("index endpoint lookup", () =>
+        endpoints.getIndexEndpoint({ name: this.indexEndpointName }),
+      );
+      domain = endpoint.publicEndpointDomainName;
+      if (!domain) {
+        throw new ConfigError(
+          `Index endpoint ${this.vertex.indexEndpointId} has no public endpoint.`,
+        );
+      }
+    }
+    const client = new MatchServiceClient({ apiEndpoint: domain });
+    await this.checkCredentials(client);
+    this.matchClient = client;
+    return this.matchClient;
+  }
+
+  async upsert(concepts) {
+    const indexClient = await this.getIndexClient();
+    const vectors = await this.embed(concepts.map(conceptText));
+    await this.call("upsert", () =>
+      indexClient.upsertDatapoints({
+        index: this.indexName,
+        datapoints: concepts.map((concept, i) => ({
+          datapointId: conceptId(concept),
+          featureVector: vectors[i],
+          embeddingMetadata: toStruct({
+            title: concept.title,
+            genre: concept.genre,
+          }),
+        })),
+      }),
+    );
+  }
+
+  async query(candidate, topK) {
+    const matchClient = await this.getMatchClient();
+    const [vector] = await this.embed([conceptText(candidate)]);
+    const [response] = await this.call("nearest neighbor search", () =>
+      matchClient.findNeighbors({
+        indexEndpoint: this.indexEndpointName,
+        deployedIndexId: this.vertex.deployedIndexId,
+        queries: [
+          {
+            datapoint: { datapointId: "candidate", featureVector: vector },
+            neighborCount: topK,
+          },
+        ],
+        returnFullDatapoint: true,
+      }),
+    );
+    // DOT_PRODUCT_DISTANCE reports the dot product itself: higher is closer
+    return (response.nearestNeighbors?.[0]?.neighbors ?? [])
+      .map(({ datapoint, distance }) => ({
+        id: datapoint.datapointId,
+        ...fromStruct(datapoint.embeddingMetadata),
+        score: toScore(distance),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  async remove(ids) {
+    const indexClient = await this.getIndexClient();
+    await this.call("remove", () =>
+      indexClient.removeDatapoints({
+        index: this.indexName,
+        datapointIds: ids,
+      }),
+    );
+  }
+}
+
+module.exports = { VertexVectorStore };
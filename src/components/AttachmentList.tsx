@@ -0,0 +1,56 @@
+import React from "react";
+import type { AttachmentPreview } from "../lib/attachments";
+
+interface AttachmentListProps {
+  attachments: AttachmentPreview[];
+  /** Shows a remove button on each attachment (composer). */
+  onRemove?: (index: number) => void;
+}
+
+/**
+ * Image thumbnails and audio clip chips, in a chat bubble or above the
+ * text input.
+ */
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  onRemove,
+}) => (
+  <div className="flex flex-wrap gap-2">
+    {attachments.map((attachment, i) => (
+      <div
+        key={i}
+        className="relative flex items-center gap-1 rounded-lg bg-black/20 text-xs"
+        title={attachment.name}
+      >
+        {attachment.kind === "image" && attachment.thumbnail ? (
+          <img
+            src={attachment.thumbnail}
+            alt={attachment.name}
+            className="w-16 h-16 object-cover rounded-lg"
+          />
+        ) : (
+          <span className="flex items-center gap-1 px-2 py-1.5 max-w-[10rem]">
+            <span>{attachment.kind === "audio" ? "🎵" : "🖼️"}</span>
+            <span className="truncate">{attachment.name}</span>
+            {attachment.duration !== undefined && (
+              <span className="opacity-70">
+                {Math.round(attachment.duration)}s
+              </span>
+            )}
+          </span>
+        )}
+        {onRemove && (
+          <button
+            onClick={() => onRemove(i)}
+            className="absolute -top-1.5 -right-1.5 w-4 h-4 flex items-center justify-center rounded-full bg-gray-900 border border-gray-600 text-[10px] text-gray-300 hover:text-white"
+            title="Remove"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default AttachmentList;
@@ -0,0 +1,123 @@
+import React from "react";
+import type { Track, TracklistIssue } from "../lib/tracklist";
+import { formatTracklistIssues } from "../lib/tracklist";
+
+interface ConceptCardProps {
+  title: string;
+  genre: string;
+  description: string;
+  instrumental: boolean;
+  artPrompt: string;
+  tracks: Track[];
+  issues?: TracklistIssue[];
+  /** False when print_album_concept refused to save it (see `issues`). */
+  saved?: boolean;
+}
+
+/**
+ * A finalized album concept: header, summary and a track table.
+ */
+const ConceptCard: React.FC<ConceptCardProps> = ({
+  title,
+  genre,
+  description,
+  instrumental,
+  artPrompt,
+  tracks,
+  issues = [],
+  saved = true,
+}) => (
+  <div className="flex flex-col gap-3 whitespace-normal">
+    <div>
+      {saved ? (
+        <p className="text-[10px] uppercase tracking-widest text-purple-300">
+          📀 New Concept
+        </p>
+      ) : (
+        <p className="text-[10px] uppercase tracking-widest text-red-300">
+          Draft · Not saved
+        </p>
+      )}
+      <h3 className="text-base font-bold text-white">{title}</h3>
+      <div className="flex flex-wrap gap-1 mt-1">
+        <span className="text-[10px] px-2 py-0.5 rounded-full bg-purple-700/60 text-purple-100">
+          {genre}
+        </span>
+        <span className="text-[10px] px-2 py-0.5 rounded-full bg-gray-600 text-gray-200">
+          {instrumental ? "Instrumental" : "Vocals"}
+        </span>
+      </div>
+    </div>
+
+    <p className="text-sm text-gray-200 whitespace-pre-wrap">{description}</p>
+
+    {tracks.length > 0 && (
+      <table className="w-full text-xs border-collapse">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-gray-600">
+            <th className="py-1 pr-2 font-medium">#</th>
+            <th className="py-1 pr-2 font-medium">Track</th>
+            <th className="py-1 font-medium">Style</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tracks.map((track, i) => (
+            <tr
+              key={`${track.number}-${i}`}
+              className="align-top border-b border-gray-600/50 last:border-0"
+            >
+              <td className="py-1.5 pr-2 text-gray-400 tabular-nums">
+                {track.number}
+              </td>
+              <td className="py-1.5 pr-2">
+                <p className="font-semibold text-white">{track.title}</p>
+                <p className="text-gray-300">{track.description}</p>
+              </td>
+              <td className="py-1.5">
+                <div className="flex flex-wrap gap-1">
+                  {track.styleTags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="px-1.5 py-0.5 rounded bg-gray-800 text-gray-300 text-[10px]"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+
+    {!saved && (
+      <p className="text-xs text-red-300">
+        The tracklist needs fixing before this concept is saved.
+      </p>
+    )}
+
+    {issues.length > 0 && (
+      <ul
+        className={`text-[10px] list-disc pl-4 ${
+          saved ? "text-yellow-300/80" : "text-red-300/80"
+        }`}
+      >
+        {formatTracklistIssues(issues).map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+    )}
+
+    {artPrompt && (
+      <details className="text-xs text-gray-400">
+        <summary className="cursor-pointer hover:text-gray-200">
+          Album art prompt
+        </summary>
+        <p className="mt-1 whitespace-pre-wrap">{artPrompt}</p>
+      </details>
+    )}
+  </div>
+);
+
+export default ConceptCard;
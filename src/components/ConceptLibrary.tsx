@@ -0,0 +1,466 @@
+import React, { useEffect, useState } from "react";
+import {
+  deleteConcept,
+  listConcepts,
+  matchesQuery,
+  onConceptsChanged,
+  updateConcept,
+  type ConceptRecord,
+} from "../lib/conceptLibrary";
+import {
+  conceptToJson,
+  conceptToMarkdown,
+  conceptToPromptPack,
+  conceptsToZip,
+  slugify,
+} from "../lib/conceptExport";
+import { downloadBlob } from "../lib/download";
+import { blobToDataUri } from "../lib/dataUri";
+import { useObjectUrl } from "../lib/useObjectUrl";
+import type { CoverArtStudio } from "../lib/coverArt";
+import type { SimilaritySettings } from "../lib/similaritySettings";
+import CoverArtPanel from "./CoverArtPanel";
+import SimilaritySettingsPanel from "./SimilaritySettingsPanel";
+
+interface ConceptLibraryProps {
+  coverStudio: CoverArtStudio;
+  similaritySettings: SimilaritySettings;
+  onSaveSimilaritySettings: (settings: SimilaritySettings) => void;
+  onClose: () => void;
+}
+
+type Draft = Pick<
+  ConceptRecord,
+  "title" | "genre" | "description" | "tracklist" | "instrumental" | "artPrompt"
+>;
+
+const statusColor = (status?: string) =>
+  status === "ACCEPT"
+    ? "bg-green-700 text-green-100"
+    : status === "REJECT"
+      ? "bg-red-700 text-red-100"
+      : status === "REVIEW"
+        ? "bg-yellow-700 text-yellow-100"
+        : "bg-gray-700 text-gray-300";
+
+type ExportFormat = "json" | "md" | "prompts";
+
+const exportConcept = async (record: ConceptRecord, format: ExportFormat) => {
+  const name = slugify(record.title);
+  if (format === "json") {
+    const cover = record.coverImage && (await blobToDataUri(record.coverImage));
+    downloadBlob(
+      new Blob([JSON.stringify(conceptToJson(record, cover), null, 2)], {
+        type: "application/json",
+      }),
+      `${name}.json`,
+    );
+  } else if (format === "md") {
+    downloadBlob(
+      new Blob([conceptToMarkdown(record)], { type: "text/markdown" }),
+      `${name}.md`,
+    );
+  } else {
+    downloadBlob(
+      new Blob([conceptToPromptPack(record)], { type: "text/plain" }),
+      `${name}-prompts.txt`,
+    );
+  }
+};
+
+const CoverThumbnail: React.FC<{ record: ConceptRecord }> = ({ record }) => {
+  const url = useObjectUrl(record.coverImage);
+  return url ? (
+    <img
+      src={url}
+      alt={`${record.title} cover`}
+      className="w-20 h-20 object-cover rounded border border-gray-600"
+    />
+  ) : (
+    <div className="w-20 h-20 rounded bg-gray-800 border border-gray-700 flex items-center justify-center text-2xl">
+      📀
+    </div>
+  );
+};
+
+/**
+ * Browse, search, edit, delete and export concepts saved across sessions.
+ */
+const ConceptLibrary: React.FC<ConceptLibraryProps> = ({
+  coverStudio,
+  similaritySettings,
+  onSaveSimilaritySettings,
+  onClose,
+}) => {
+  const [records, setRecords] = useState<ConceptRecord[]>([]);
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Concept whose cover art studio is open
+  const [coverId, setCoverId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      listConcepts()
+        .then(setRecords)
+        .catch((err) => {
+          console.error("Failed to load concept library:", err);
+          setError("Could not open the concept library.");
+        });
+
+    load();
+    return onConceptsChanged(load);
+  }, []);
+
+  const startEdit = (record: ConceptRecord) => {
+    setEditingId(record.id);
+    setDraft({
+      title: record.title,
+      genre: record.genre,
+      description: record.description,
+      tracklist: record.tracklist,
+      instrumental: record.instrumental,
+      artPrompt: record.artPrompt,
+    });
+  };
+
+  const saveEdit = async () => {
+    if (!editingId || !draft) return;
+    try {
+      await updateConcept(editingId, draft);
+      setEditingId(null);
+      setDraft(null);
+    } catch (err) {
+      console.error("Failed to update concept:", err);
+      setError("Could not save the concept.");
+    }
+  };
+
+  const handleDelete = async (record: ConceptRecord) => {
+    if (!window.confirm(`Delete "${record.title}"?`)) return;
+    try {
+      await deleteConcept(record.id);
+    } catch (err) {
+      console.error("Failed to delete concept:", err);
+      setError("Could not delete the concept.");
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const visible = records.filter((r) => matchesQuery(r, query));
+  // Ignore selections that were deleted or filtered out
+  const selectedRecords = visible.filter((r) => selected.has(r.id));
+
+  const handleExportZip = async () => {
+    if (selectedRecords.length === 0) return;
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(
+      await conceptsToZip(selectedRecords),
+      `radio-ai-concepts-${stamp}.zip`,
+    );
+  };
+
+  const inputClass =
+    "w-full bg-gray-800 text-white rounded p-2 text-sm border border-gray-700 outline-none focus:border-blue-500 transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b border-gray-800">
+          <h2 className="text-lg font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
+            Concept Library
+          </h2>
+          <span className="text-xs text-gray-500">{records.length} saved</span>
+          <button
+            onClick={handleExportZip}
+            disabled={selectedRecords.length === 0}
+            className={`ml-auto px-3 py-1.5 bg-blue-600 rounded text-xs font-bold hover:bg-blue-700 transition-colors ${selectedRecords.length === 0 ? "opacity-50 cursor-not-allowed" : ""}`}
+            title="Download selected concepts as a zip"
+          >
+            Export ZIP
+            {selectedRecords.length > 0 && ` (${selectedRecords.length})`}
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+            title="Close Library"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="p-4 pb-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search title, genre, description or tracks..."
+            className={inputClass}
+          />
+          {visible.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+              <input
+                type="checkbox"
+                checked={selectedRecords.length === visible.length}
+                onChange={(e) =>
+                  setSelected(
+                    new Set(e.target.checked ? visible.map((r) => r.id) : []),
+                  )
+                }
+                className="accent-blue-500"
+              />
+              Select all
+            </label>
+          )}
+          {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+          <details className="mt-2">
+            <summary className="cursor-pointer text-xs text-gray-400 hover:text-gray-200">
+              Gap analysis settings (accept{" "}
+              {similaritySettings.acceptBelow.toFixed(2)}, reject{" "}
+              {similaritySettings.rejectAt.toFixed(2)}, top{" "}
+              {similaritySettings.topK})
+            </summary>
+            <SimilaritySettingsPanel
+              settings={similaritySettings}
+              onSave={onSaveSimilaritySettings}
+            />
+          </details>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto p-4 pt-2 flex flex-col gap-3 min-h-0">
+          {visible.length === 0 && (
+            <p className="text-gray-500 italic text-center text-xs my-auto">
+              {records.length === 0
+                ? "Finalized concepts will appear here..."
+                : "No concepts match your search."}
+            </p>
+          )}
+          {visible.map((record) =>
+            editingId === record.id && draft ? (
+              <div
+                key={record.id}
+                className="flex flex-col gap-2 bg-gray-800/60 border border-blue-500 rounded-lg p-3"
+              >
+                <input
+                  value={draft.title}
+                  onChange={(e) =>
+                    setDraft({ ...draft, title: e.target.value })
+                  }
+                  placeholder="Title"
+                  className={inputClass}
+                />
+                <input
+                  value={draft.genre}
+                  onChange={(e) =>
+                    setDraft({ ...draft, genre: e.target.value })
+                  }
+                  placeholder="Genre"
+                  className={inputClass}
+                />
+                <textarea
+                  value={draft.description}
+                  onChange={(e) =>
+                    setDraft({ ...draft, description: e.target.value })
+                  }
+                  placeholder="Description"
+                  rows={4}
+                  className={inputClass}
+                />
+                <textarea
+                  value={draft.tracklist}
+                  onChange={(e) =>
+                    setDraft({ ...draft, tracklist: e.target.value })
+                  }
+                  placeholder="Tracklist"
+                  rows={6}
+                  className={`${inputClass} font-mono text-xs`}
+                />
+                <textarea
+                  value={draft.artPrompt}
+                  onChange={(e) =>
+                    setDraft({ ...draft, artPrompt: e.target.value })
+                  }
+                  placeholder="Art prompt"
+                  rows={2}
+                  className={inputClass}
+                />
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.instrumental}
+                    onChange={(e) =>
+                      setDraft({ ...draft, instrumental: e.target.checked })
+                    }
+                    className="accent-blue-500"
+                  />
+                  Instrumental
+                </label>
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={() => {
+                      setEditingId(null);
+                      setDraft(null);
+                    }}
+                    className="px-4 py-2 bg-gray-700 rounded text-sm hover:bg-gray-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={saveEdit}
+                    disabled={!draft.title.trim()}
+                    className={`px-4 py-2 bg-blue-600 rounded text-sm font-bold hover:bg-blue-700 transition-colors ${!draft.title.trim() ? "opacity-50 cursor-not-allowed" : ""}`}
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div
+                key={record.id}
+                className={`flex gap-3 bg-gray-800/60 border rounded-lg p-3 group/card ${selected.has(record.id) ? "border-blue-500" : "border-gray-700"}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(record.id)}
+                  onChange={() => toggleSelected(record.id)}
+                  className="accent-blue-500 self-start mt-1"
+                  title="Select for export"
+                />
+                <button
+                  onClick={() =>
+                    setCoverId(coverId === record.id ? null : record.id)
+                  }
+                  className="shrink-0 self-start"
+                  title="Cover art"
+                >
+                  <CoverThumbnail record={record} />
+                </button>
+                <div className="flex flex-col gap-1 min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold text-white truncate">
+                      {record.title}
+                    </h3>
+                    {record.similarity && (
+                      <span
+                        className={`text-[10px] px-2 py-0.5 rounded-full ${statusColor(record.similarity.status)}`}
+                        title={record.similarity.reason}
+                      >
+                        {record.similarity.status}{" "}
+                        {record.similarity.score?.toFixed(2)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-purple-300 truncate">
+                    {record.genre}
+                    {record.instrumental ? " · Instrumental" : ""}
+                    {record.tracks?.length
+                      ? ` · ${record.tracks.length} tracks`
+                      : ""}
+                  </p>
+                  <p className="text-xs text-gray-400 line-clamp-2">
+                    {record.description}
+                  </p>
+                  <p className="text-[10px] text-gray-500">
+                    Created {new Date(record.createdAt).toLocaleString()}
+                    {record.updatedAt !== record.createdAt &&
+                      ` · Edited ${new Date(record.updatedAt).toLocaleString()}`}
+                  </p>
+                  <div className="flex gap-1 mt-1">
+                    {(
+                      [
+                        ["json", "JSON"],
+                        ["md", "Markdown"],
+                        ["prompts", "Prompt Pack"],
+                      ] as const
+                    ).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => exportConcept(record, format)}
+                        className="text-[10px] px-2 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600 hover:text-white transition-colors"
+                        title={`Download as ${label}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {coverId === record.id && (
+                    <CoverArtPanel studio={coverStudio} concept={record} />
+                  )}
+                </div>
+                <div className="flex flex-col gap-1 opacity-0 group-hover/card:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startEdit(record)}
+                    className="p-1 text-gray-400 hover:text-white"
+                    title="Edit concept"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <path d="M12 20h9"></path>
+                      <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(record)}
+                    className="p-1 text-gray-400 hover:text-red-400"
+                    title="Delete concept"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    >
+                      <polyline points="3 6 5 6 21 6"></polyline>
+                      <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConceptLibrary;
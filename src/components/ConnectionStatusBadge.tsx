@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react";
+import type { ConnectionStatus } from "../lib/gemini/GeminiConnection";
+
+interface ConnectionStatusBadgeProps {
+  /** Whether the avatar renderer is up. */
+  avatarReady: boolean;
+  /** The chosen avatar failed to start and the local face stands in. */
+  avatarFallback?: boolean;
+  /** Gemini connection status, null before the meeting starts. */
+  status: ConnectionStatus | null;
+  error: string | null;
+  onRetry: () => void;
+}
+
+/**
+ * Where the meeting connection is at, with a retry action once it gives up.
+ */
+const ConnectionStatusBadge: React.FC<ConnectionStatusBadgeProps> = ({
+  avatarReady,
+  avatarFallback,
+  status,
+  error,
+  onRetry,
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const retryAt = status?.state === "reconnecting" ? status.retryAt : undefined;
+
+  // Ticks the reconnect countdown
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  if (error) {
+    return (
+      <div className="absolute top-2 left-2 right-2 bg-black/50 text-xs p-2 rounded z-30 pointer-events-none text-center backdrop-blur-sm">
+        <span className="text-red-400">{error}</span>
+      </div>
+    );
+  }
+
+  let dot = "bg-yellow-400 animate-pulse";
+  let label: React.ReactNode;
+  let showRetry = false;
+
+  switch (status?.state) {
+    case undefined:
+    case "idle":
+      if (avatarReady) return null;
+      label = "Starting avatar...";
+      break;
+    case "connecting":
+      label = avatarReady ? "Connecting to Gemini..." : "Starting avatar...";
+      break;
+    case "ready":
+      dot = "bg-green-500";
+      label = !avatarReady
+        ? "Starting avatar..."
+        : avatarFallback
+          ? "Live (local avatar)"
+          : "Live";
+      break;
+    case "resuming":
+      label = "Resuming session...";
+      break;
+    case "reconnecting": {
+      const seconds = retryAt
+        ? Math.max(0, Math.ceil((retryAt - now) / 1000))
+        : 0;
+      dot = "bg-orange-500 animate-pulse";
+      label = `Reconnecting (attempt ${status.attempt}/${status.maxAttempts})${
+        seconds > 0 ? ` in ${seconds}s` : ""
+      }...`;
+      break;
+    }
+    case "failed":
+      dot = "bg-red-500";
+      label = "Connection lost";
+      showRetry = true;
+      break;
+  }
+
+  return (
+    <div className="absolute top-2 left-2 z-30 flex items-center gap-2 bg-black/50 text-white text-xs px-3 py-1.5 rounded-full backdrop-blur-sm">
+      <span className={`inline-flex h-2 w-2 rounded-full ${dot}`}></span>
+      <span title={status?.error}>{label}</span>
+      {showRetry && (
+        <button
+          onClick={onRetry}
+          className="ml-1 px-2 py-0.5 bg-blue-600 rounded text-[10px] font-bold hover:bg-blue-700 transition-colors"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatusBadge;
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import {
+  ASPECT_RATIOS,
+  COVER_PRESETS,
+  DEFAULT_PRESET,
+  MAX_VARIANTS,
+  type CoverArtStudio,
+  type CoverConcept,
+  type CoverPresetId,
+} from "../lib/coverArt";
+
+interface CoverArtPanelProps {
+  studio: CoverArtStudio;
+  concept: CoverConcept;
+}
+
+const selectClass =
+  "bg-gray-800 text-gray-200 rounded px-1.5 py-1 text-[11px] border border-gray-600 outline-none focus:border-blue-500";
+const buttonClass =
+  "px-2 py-1 rounded text-[11px] font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+/**
+ * Cover art for one concept: the current pick, all variants, edits by
+ * instruction and new generations with a preset, aspect ratio and count.
+ */
+const CoverArtPanel: React.FC<CoverArtPanelProps> = ({ studio, concept }) => {
+  const [state, setState] = useState(() => studio.get(concept.id));
+  // Variant shown large; the favourite unless another one was clicked
+  const [viewedId, setViewedId] = useState<string | null>(null);
+  const [instruction, setInstruction] = useState("");
+  const [preset, setPreset] = useState<CoverPresetId>(DEFAULT_PRESET);
+  const [aspectRatio, setAspectRatio] = useState(
+    COVER_PRESETS[DEFAULT_PRESET].aspectRatio,
+  );
+  const [count, setCount] = useState(2);
+
+  useEffect(() => {
+    setState(studio.get(concept.id));
+    const off = studio.on("change", (id) => {
+      if (id === concept.id) setState(studio.get(id));
+    });
+    studio.load(concept.id);
+    return off;
+  }, [studio, concept.id]);
+
+  const { variants, favouriteId, pending, failed, error } = state;
+  const viewed =
+    variants.find((v) => v.id === viewedId) ??
+    variants.find((v) => v.id === favouriteId) ??
+    variants[variants.length - 1];
+
+  const handleEdit = () => {
+    if (!viewed || !instruction.trim()) return;
+    studio.edit(concept.id, viewed.id, instruction.trim());
+    setInstruction("");
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-2 whitespace-normal">
+      {viewed ? (
+        <div className="relative w-64">
+          <img
+            src={viewed.url}
+            alt="Generated Album Art"
+            style={{ aspectRatio: viewed.aspectRatio.replace(":", " / ") }}
+            className="w-64 object-contain bg-black/30 rounded-lg shadow-md border border-gray-600"
+          />
+          {viewed.id === favouriteId && (
+            <span className="absolute top-2 left-2 text-[10px] px-1.5 py-0.5 rounded bg-black/60 text-yellow-300">
+              ★ Cover
+            </span>
+          )}
+        </div>
+      ) : (
+        pending > 0 && (
+          <div className="w-64 h-64 bg-gray-800 animate-pulse rounded-lg flex items-center justify-center border border-gray-600">
+            <span className="text-gray-400 text-xs">
+              Generating Cover Art...
+            </span>
+          </div>
+        )
+      )}
+
+      {variants.length > 1 && (
+        <div className="flex flex-wrap gap-1.5 w-64">
+          {variants.map((variant) => (
+            <button
+              key={variant.id}
+              onClick={() => setViewedId(variant.id)}
+              className={`relative w-12 h-12 rounded overflow-hidden border-2 ${variant.id === viewed?.id ? "border-blue-500" : "border-transparent hover:border-gray-500"}`}
+              title={
+                variant.parentId ? `Edit: ${variant.prompt}` : variant.preset
+              }
+            >
+              <img
+                src={variant.url}
+                alt=""
+                className="w-full h-full object-cover"
+              />
+              {variant.id === favouriteId && (
+                <span className="absolute top-0 right-0.5 text-[10px] text-yellow-300">
+                  ★
+                </span>
+              )}
+              {variant.parentId && (
+                <span className="absolute bottom-0 left-0.5 text-[10px] text-white">
+                  ✎
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {variants.length > 0 && pending > 0 && (
+        <p className="text-[10px] text-gray-400 animate-pulse">
+          Generating {pending} more...
+        </p>
+      )}
+
+      {failed > 0 && (
+        <div className="flex items-center gap-2 text-[11px] text-red-300">
+          <span>
+            {failed === 1 ? "A cover" : `${failed} covers`} failed: {error}
+          </span>
+          <button
+            onClick={() => studio.retry(concept.id)}
+            className={`${buttonClass} bg-gray-800 text-gray-200 hover:bg-gray-600`}
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      <details className="text-xs text-gray-300 w-64">
+        <summary className="cursor-pointer text-gray-400 hover:text-gray-200">
+          Cover art studio
+        </summary>
+        <div className="flex flex-col gap-3 mt-2">
+          {viewed && (
+            <div className="flex flex-col gap-1.5">
+              <button
+                onClick={() => studio.pick(concept.id, viewed.id)}
+                disabled={viewed.id === favouriteId}
+                className={`${buttonClass} self-start bg-yellow-600/80 text-white hover:bg-yellow-600`}
+              >
+                ★ Use as cover
+              </button>
+              <div className="flex gap-1">
+                <input
+                  value={instruction}
+                  onChange={(e) => setInstruction(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleEdit()}
+                  placeholder="Edit, e.g. make it night-time"
+                  className="flex-1 min-w-0 bg-gray-800 text-white rounded px-2 py-1 text-[11px] border border-gray-600 outline-none focus:border-blue-500"
+                />
+                <button
+                  onClick={handleEdit}
+                  disabled={!instruction.trim()}
+                  className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+                >
+                  Edit
+                </button>
+              </div>
+            </div>
+          )}
+          <div className="flex flex-wrap items-center gap-1">
+            <select
+              value={preset}
+              onChange={(e) => {
+                const id = e.target.value as CoverPresetId;
+                setPreset(id);
+                setAspectRatio(COVER_PRESETS[id].aspectRatio);
+              }}
+              className={selectClass}
+              title="Format"
+            >
+              {Object.entries(COVER_PRESETS).map(([id, { label }]) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={aspectRatio}
+              onChange={(e) => setAspectRatio(e.target.value)}
+              className={selectClass}
+              title="Aspect ratio"
+            >
+              {ASPECT_RATIOS.map((ratio) => (
+                <option key={ratio} value={ratio}>
+                  {ratio}
+                </option>
+              ))}
+            </select>
+            <select
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              className={selectClass}
+              title="Variants"
+            >
+              {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(
+                (n) => (
+                  <option key={n} value={n}>
+                    ×{n}
+                  </option>
+                ),
+              )}
+            </select>
+            <button
+              onClick={() =>
+                studio.generate(concept, { preset, aspectRatio, count })
+              }
+              className={`${buttonClass} bg-purple-600 text-white hover:bg-purple-700`}
+            >
+              Generate
+            </button>
+          </div>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default CoverArtPanel;
@@ -0,0 +1,67 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { SessionRecorder, parseSessionLog } from "../lib/sessionLog";
+import { ToolRegistry } from "../lib/tools/ToolRegistry";
+import { createProducerTools } from "../tools/producerTools";
+import SessionReplay from "./SessionReplay";
+
+const registry = new ToolRegistry().register(
+  ...createProducerTools({ onConceptPrinted: () => {} }),
+);
+
+const concept = {
+  title: "Tidal Neon",
+  genre: "Synthwave",
+  description: "A night drive by the sea.",
+  tracklist: 'Track 1: "Harbour" - [Slow start] - [synth]',
+  instrumental: true,
+  art_prompt: "A neon lighthouse",
+};
+
+// Round-trips through the import parser, as a replayed file does
+const replay = (args: Record<string, unknown>) => {
+  const recorder = new SessionRecorder({
+    personaId: "alisa",
+    personaName: "Alisa",
+  });
+  recorder.record({
+    type: "toolCall",
+    id: "c1",
+    name: "print_album_concept",
+    args,
+  });
+  recorder.record({
+    type: "toolResult",
+    id: "c1",
+    name: "print_album_concept",
+    ok: true,
+    result: args,
+    durationMs: 5,
+  });
+  const log = parseSessionLog(JSON.stringify(recorder.toJSON()));
+  return renderToStaticMarkup(
+    <SessionReplay
+      log={log}
+      onClose={() => {}}
+      getTool={(name) => registry.get(name)}
+    />,
+  );
+};
+
+describe("SessionReplay", () => {
+  it("renders tool calls with their tool's renderer", () => {
+    const html = replay(concept);
+
+    expect(html).toContain("Tidal Neon");
+    expect(html).toContain("Harbour");
+  });
+
+  it("shows args that don't match the tool's parameters as JSON only", () => {
+    const html = replay({ ...concept, tracklist: 5 });
+
+    expect(html).toContain("print_album_concept");
+    expect(html).toContain("&quot;tracklist&quot;: 5");
+    expect(html).not.toContain("Harbour");
+  });
+});
@@ -0,0 +1,379 @@
+import React, { Component, useMemo, useState, type ReactNode } from "react";
+import { validateSchema } from "../lib/tools/schema";
+import type {
+  ToolDefinition,
+  ToolRenderProps,
+} from "../lib/tools/ToolRegistry";
+import {
+  formatOffset,
+  type SessionEvent,
+  type SessionLog,
+} from "../lib/sessionLog";
+import AttachmentList from "./AttachmentList";
+
+interface SessionReplayProps {
+  log: SessionLog;
+  onClose: () => void;
+  /**
+   * Looks up a tool by name for its chat renderer (e.g. the concept card).
+   * Calls whose args don't match the tool's parameters are shown as JSON.
+   */
+  getTool?: (name: string) => ToolDefinition | undefined;
+}
+
+type ToolCallEvent = Extract<SessionEvent, { type: "toolCall" }>;
+type ToolResultEvent = Extract<SessionEvent, { type: "toolResult" }>;
+type ImageEvent = Extract<SessionEvent, { type: "image" }>;
+
+// Tool calls are shown once, together with their result and cover images
+type ReplayItem =
+  | { kind: "event"; event: SessionEvent }
+  | {
+      kind: "tool";
+      call: ToolCallEvent;
+      result?: ToolResultEvent;
+      images: ImageEvent[];
+    };
+
+const SYSTEM_EVENTS = new Set(["connection", "turnComplete", "toolCancelled"]);
+
+const buildItems = (events: SessionEvent[], showSystem: boolean) => {
+  const items: ReplayItem[] = [];
+  const tools = new Map<string, Extract<ReplayItem, { kind: "tool" }>>();
+
+  for (const event of events) {
+    if (event.type === "toolCall") {
+      const item = { kind: "tool" as const, call: event, images: [] };
+      tools.set(event.id, item);
+      items.push(item);
+    } else if (event.type === "toolResult" && tools.has(event.id)) {
+      tools.get(event.id)!.result = event;
+    } else if (event.type === "image" && tools.has(event.callId)) {
+      tools.get(event.callId)!.images.push(event);
+    } else if (showSystem || !SYSTEM_EVENTS.has(event.type)) {
+      items.push({ kind: "event", event });
+    }
+  }
+  return items;
+};
+
+/** Runs a tool's renderer inside the error boundary below. */
+const ToolRender: React.FC<{
+  render: NonNullable<ToolDefinition["render"]>;
+  props: ToolRenderProps;
+}> = ({ render, props }) => <>{render(props)}</>;
+
+// A replayed log may hold results the renderer can't handle; the raw JSON
+// below the bubble still shows them
+class ToolRenderBoundary extends Component<
+  { children: ReactNode },
+  { failed: boolean }
+> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(err: unknown) {
+    console.error("Tool renderer failed in replay:", err);
+  }
+
+  render() {
+    return this.state.failed ? (
+      <p className="text-xs text-gray-400">
+        This call can't be shown as a card; see the JSON below.
+      </p>
+    ) : (
+      this.props.children
+    );
+  }
+}
+
+const Json: React.FC<{ label: string; value: unknown }> = ({
+  label,
+  value,
+}) => (
+  <details className="text-[10px] text-gray-400">
+    <summary className="cursor-pointer hover:text-gray-200">{label}</summary>
+    <pre className="mt-1 p-2 bg-gray-900 rounded overflow-x-auto whitespace-pre-wrap break-all">
+      {JSON.stringify(value, null, 2)}
+    </pre>
+  </details>
+);
+
+const Time: React.FC<{ t: number }> = ({ t }) => (
+  <span className="text-[10px] text-gray-500 tabular-nums">
+    {formatOffset(t)}
+  </span>
+);
+
+const Divider: React.FC<{ t: number; children: ReactNode }> = ({
+  t,
+  children,
+}) => (
+  <div className="flex items-center gap-2 text-[10px] text-gray-500">
+    <Time t={t} />
+    <div className="flex-1 border-t border-gray-800" />
+    <span>{children}</span>
+    <div className="flex-1 border-t border-gray-800" />
+  </div>
+);
+
+/**
+ * Read-only view of an exported session: turns, tool calls with their
+ * responses, concepts, images and timing.
+ */
+const SessionReplay: React.FC<SessionReplayProps> = ({
+  log,
+  onClose,
+  getTool,
+}) => {
+  const [showSystem, setShowSystem] = useState(false);
+  const items = useMemo(
+    () => buildItems(log.events, showSystem),
+    [log, showSystem],
+  );
+
+  const lastT = log.events.reduce(
+    (max, e) => Math.max(max, "endT" in e && e.endT ? e.endT : e.t),
+    0,
+  );
+  const duration = log.endedAt ? log.endedAt - log.startedAt : lastT;
+  const count = (type: SessionEvent["type"]) =>
+    log.events.filter((e) => e.type === type).length;
+
+  const renderEvent = (event: SessionEvent) => {
+    switch (event.type) {
+      case "user":
+        return (
+          <div className="flex flex-col items-end gap-1">
+            <div className="px-4 py-3 rounded-2xl rounded-br-none max-w-[90%] bg-blue-600 text-white text-sm whitespace-pre-wrap flex flex-col gap-2">
+              {event.attachments?.length > 0 && (
+                <AttachmentList attachments={event.attachments} />
+              )}
+              {event.text}
+            </div>
+            <span className="text-[10px] text-gray-500">
+              {event.source === "prompt"
+                ? "session prompt"
+                : event.source === "text"
+                  ? "typed"
+                  : "voice"}{" "}
+              · <Time t={event.t} />
+            </span>
+          </div>
+        );
+      case "assistant":
+        return (
+          <div className="flex flex-col items-start gap-1">
+            <div className="px-4 py-3 rounded-2xl rounded-bl-none max-w-[90%] bg-gray-700 text-gray-100 text-sm whitespace-pre-wrap">
+              {event.text}
+            </div>
+            <Time t={event.t} />
+          </div>
+        );
+      case "thought":
+        return (
+          <p className="text-xs italic text-gray-400 whitespace-pre-wrap">
+            <Time t={event.t} /> {event.text}
+          </p>
+        );
+      case "concept":
+        return (
+          <Divider t={event.t}>
+            📀 Saved “{event.title}”
+            {event.similarity &&
+              ` · ${event.similarity.status} ${event.similarity.score?.toFixed(2)}`}
+          </Divider>
+        );
+      case "grounding":
+        return (
+          <div className="text-[10px] text-gray-400 flex flex-col gap-0.5">
+            <span>
+              <Time t={event.t} /> 🔎{" "}
+              {event.metadata.webSearchQueries?.join(", ") || "Search"}
+            </span>
+            {event.metadata.groundingChunks
+              ?.filter((chunk) => chunk.web?.uri)
+              .map((chunk, i) => (
+                <a
+                  key={i}
+                  href={chunk.web!.uri}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-blue-400 hover:underline truncate pl-6"
+                >
+                  {chunk.web!.title || chunk.web!.uri}
+                </a>
+              ))}
+          </div>
+        );
+      case "interrupted":
+        return <Divider t={event.t}>✋ Interrupted</Divider>;
+      case "turnComplete":
+        return <Divider t={event.t}>Turn complete</Divider>;
+      case "toolCancelled":
+        return <Divider t={event.t}>Cancelled {event.ids.join(", ")}</Divider>;
+      case "connection":
+        return (
+          <Divider t={event.t}>
+            {event.state}
+            {event.detail ? `: ${event.detail}` : ""}
+          </Divider>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderToolItem = ({
+    call,
+    result,
+    images,
+  }: Extract<ReplayItem, { kind: "tool" }>) => {
+    const status = !result ? "running" : result.ok ? "done" : "error";
+    // First generated first; later ones are variants and edits
+    const covers = images.filter((image) => image.image);
+    const tool = getTool?.(call.name);
+    const custom = tool?.render &&
+      validateSchema(tool.parameters, call.args).length === 0 && (
+        <ToolRenderBoundary>
+          <ToolRender
+            render={tool.render}
+            props={{
+              args: call.args,
+              status,
+              result: result?.result,
+              error: result?.error,
+            }}
+          />
+        </ToolRenderBoundary>
+      );
+
+    return (
+      <div className="flex flex-col items-start gap-1">
+        <div className="px-4 py-3 rounded-2xl rounded-bl-none max-w-[90%] bg-gray-800 border border-gray-700 text-gray-100 text-sm flex flex-col gap-2">
+          <div className="flex items-center gap-2 text-[10px] text-gray-400">
+            <span className="font-mono text-purple-300">{call.name}</span>
+            <span
+              className={
+                status === "error"
+                  ? "text-red-400"
+                  : status === "done"
+                    ? "text-green-400"
+                    : "text-yellow-300"
+              }
+            >
+              {status === "running" ? "no response" : status}
+            </span>
+            {result && <span>{result.durationMs} ms</span>}
+          </div>
+          {custom}
+          {status === "error" && !custom && (
+            <p className="text-xs text-red-300">{result.error?.message}</p>
+          )}
+          {covers.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {covers.map((image, i) => (
+                <img
+                  key={i}
+                  src={image.image}
+                  alt="Generated Album Art"
+                  className={`${i === 0 ? "w-64" : "w-24"} object-contain rounded-lg shadow-md border border-gray-600`}
+                />
+              ))}
+            </div>
+          )}
+          {images.some((image) => image.error) && (
+            <p className="text-xs text-red-300">[Image Generation Failed]</p>
+          )}
+          <Json label="Arguments" value={call.args} />
+          {result && (
+            <Json
+              label="Response"
+              value={
+                result.ok ? { result: result.result } : { error: result.error }
+              }
+            />
+          )}
+        </div>
+        <Time t={call.t} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-lg shadow-xl w-full max-w-2xl h-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b border-gray-800">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
+              Session Replay
+            </h2>
+            <p className="text-[10px] text-gray-500 truncate">
+              {log.personaName} · {new Date(log.startedAt).toLocaleString()} ·{" "}
+              {formatOffset(duration)} · {count("user") + count("assistant")}{" "}
+              turns · {count("toolCall")} tool calls · {count("concept")}{" "}
+              concepts
+              {log.skippedEvents > 0 && (
+                <span className="text-yellow-400">
+                  {" "}
+                  · {log.skippedEvents} unreadable events skipped
+                </span>
+              )}
+            </p>
+          </div>
+          <label className="ml-auto flex items-center gap-2 text-xs text-gray-400 shrink-0">
+            <input
+              type="checkbox"
+              checked={showSystem}
+              onChange={(e) => setShowSystem(e.target.checked)}
+              className="accent-blue-500"
+            />
+            System events
+          </label>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+            title="Close Replay"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-3 min-h-0 text-sm text-gray-300">
+          {items.length === 0 && (
+            <p className="text-gray-500 italic text-center text-xs my-auto">
+              This session has no recorded events.
+            </p>
+          )}
+          {items.map((item, i) => (
+            <React.Fragment key={i}>
+              {item.kind === "tool"
+                ? renderToolItem(item)
+                : renderEvent(item.event)}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
@@ -0,0 +1,171 @@
+import React from "react";
+import type { SimilarityResult } from "../lib/api";
+import {
+  DEFAULT_SIMILARITY_SETTINGS,
+  similarityBand,
+  type SimilarityBand,
+} from "../lib/similaritySettings";
+
+interface SimilarityCardProps {
+  title: string;
+  genre: string;
+  /** Tool call status; `result` is set once it is "done". */
+  status: "running" | "done" | "error";
+  result?: SimilarityResult;
+}
+
+const BAND_COLORS: Record<SimilarityBand, { bar: string; text: string }> = {
+  accept: { bar: "bg-green-500", text: "text-green-300" },
+  review: { bar: "bg-yellow-500", text: "text-yellow-300" },
+  reject: { bar: "bg-red-500", text: "text-red-300" },
+};
+
+const percent = (value: number) =>
+  `${Math.round(Math.min(1, Math.max(0, value)) * 100)}%`;
+
+/**
+ * A similarities_check: the score on a gauge with the accept, review and
+ * reject bands, and the existing concepts closest to the candidate.
+ */
+const SimilarityCard: React.FC<SimilarityCardProps> = ({
+  title,
+  genre,
+  status,
+  result,
+}) => {
+  const header = (
+    <div>
+      <p className="text-[10px] uppercase tracking-widest text-blue-300">
+        🔍 Gap Analysis
+      </p>
+      <p className="text-sm font-semibold text-white">
+        {title} <span className="font-normal text-gray-400">({genre})</span>
+      </p>
+    </div>
+  );
+
+  if (status === "running") {
+    return (
+      <div className="flex flex-col gap-2 whitespace-normal">
+        {header}
+        <p className="text-xs text-gray-400 animate-pulse">
+          Checking similarities...
+        </p>
+      </div>
+    );
+  }
+  if (status === "error" || !result || result.status === "ERROR") {
+    return (
+      <div className="flex flex-col gap-2 whitespace-normal">
+        {header}
+        <p className="text-xs text-red-300">
+          Similarities check failed
+          {result?.reason ? `: ${result.reason}` : ""}. The producer went on
+          without it.
+        </p>
+      </div>
+    );
+  }
+
+  const thresholds = result.thresholds ?? DEFAULT_SIMILARITY_SETTINGS;
+  const band = similarityBand(result.score, thresholds);
+  const neighbors = result.neighbors ?? [];
+
+  return (
+    <div className="flex flex-col gap-3 whitespace-normal min-w-[16rem]">
+      {header}
+
+      <div className="flex items-baseline gap-2">
+        <span
+          className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${BAND_COLORS[band].bar} text-gray-900`}
+        >
+          {result.status}
+        </span>
+        <span className="text-xs text-gray-200">{result.reason}</span>
+        <span
+          className={`ml-auto text-sm font-bold tabular-nums ${BAND_COLORS[band].text}`}
+        >
+          {result.score.toFixed(2)}
+        </span>
+      </div>
+
+      {/* Gauge: accept | review | reject bands with the score marker */}
+      <div>
+        <div className="relative h-2 rounded-full overflow-hidden flex">
+          <div
+            className="bg-green-700/70"
+            style={{ width: percent(thresholds.acceptBelow) }}
+          />
+          <div
+            className="bg-yellow-700/70"
+            style={{
+              width: percent(thresholds.rejectAt - thresholds.acceptBelow),
+            }}
+          />
+          <div className="bg-red-800/70 flex-1" />
+        </div>
+        <div className="relative h-4">
+          <div
+            className="absolute -top-3 w-0.5 h-4 bg-white rounded shadow"
+            style={{ left: `calc(${percent(result.score)} - 1px)` }}
+            title={`Score ${result.score.toFixed(2)}`}
+          />
+          <span
+            className="absolute top-0.5 -translate-x-1/2 text-[9px] text-gray-400 tabular-nums"
+            style={{ left: percent(thresholds.acceptBelow) }}
+          >
+            {thresholds.acceptBelow.toFixed(2)}
+          </span>
+          <span
+            className="absolute top-0.5 -translate-x-1/2 text-[9px] text-gray-400 tabular-nums"
+            style={{ left: percent(thresholds.rejectAt) }}
+          >
+            {thresholds.rejectAt.toFixed(2)}
+          </span>
+        </div>
+        <div className="flex justify-between text-[9px] text-gray-500">
+          <span>Unique</span>
+          <span>Repetitive</span>
+        </div>
+      </div>
+
+      {neighbors.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <p className="text-[10px] uppercase tracking-wide text-gray-400">
+            Nearest concepts
+          </p>
+          {neighbors.map((neighbor, i) => {
+            const neighborBand = similarityBand(neighbor.score, thresholds);
+            return (
+              <div key={`${neighbor.title}-${i}`} className="text-xs">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-gray-100 truncate">
+                    {neighbor.title}
+                  </span>
+                  {neighbor.genre && (
+                    <span className="text-[10px] text-gray-500 truncate">
+                      {neighbor.genre}
+                    </span>
+                  )}
+                  <span
+                    className={`ml-auto tabular-nums ${BAND_COLORS[neighborBand].text}`}
+                  >
+                    {neighbor.score.toFixed(2)}
+                  </span>
+                </div>
+                <div className="h-1 rounded-full bg-gray-800 mt-0.5">
+                  <div
+                    className={`h-1 rounded-full ${BAND_COLORS[neighborBand].bar}`}
+                    style={{ width: percent(neighbor.score) }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimilarityCard;
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from "react";
+import {
+  DEFAULT_SIMILARITY_SETTINGS,
+  THRESHOLD_RANGE,
+  TOP_K_RANGE,
+  type SimilaritySettings,
+} from "../lib/similaritySettings";
+
+interface SimilaritySettingsPanelProps {
+  settings: SimilaritySettings;
+  onSave: (settings: SimilaritySettings) => void;
+}
+
+/**
+ * Gap analysis thresholds and top-k for this workspace, shown in the
+ * concept library.
+ */
+const SimilaritySettingsPanel: React.FC<SimilaritySettingsPanelProps> = ({
+  settings,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState(settings);
+  useEffect(() => setDraft(settings), [settings]);
+
+  const isValid = draft.acceptBelow < draft.rejectAt;
+  const isDirty =
+    draft.acceptBelow !== settings.acceptBelow ||
+    draft.rejectAt !== settings.rejectAt ||
+    draft.topK !== settings.topK;
+  const labelClass = "flex flex-col gap-1 text-xs text-gray-300";
+
+  const slider = (
+    key: keyof SimilaritySettings,
+    label: string,
+    range: typeof THRESHOLD_RANGE,
+    format: (value: number) => string,
+  ) => (
+    <label className={labelClass}>
+      <span className="flex justify-between">
+        {label}
+        <span className="text-gray-500 tabular-nums">{format(draft[key])}</span>
+      </span>
+      <input
+        type="range"
+        {...range}
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+        className="accent-blue-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-3 mt-2 p-3 bg-gray-800/60 border border-gray-700 rounded-lg">
+      <div className="grid grid-cols-2 gap-3">
+        {slider("acceptBelow", "Accept below", THRESHOLD_RANGE, (v) =>
+          v.toFixed(2),
+        )}
+        {slider("rejectAt", "Reject at or above", THRESHOLD_RANGE, (v) =>
+          v.toFixed(2),
+        )}
+      </div>
+      {slider("topK", "Nearest concepts shown", TOP_K_RANGE, String)}
+      <p className="text-[10px] text-gray-500">
+        Scores in between are flagged for review. Used by the next similarity
+        check.
+      </p>
+      {!isValid && (
+        <p className="text-[10px] text-red-400">
+          The accept threshold must be below the reject threshold.
+        </p>
+      )}
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={() => setDraft(DEFAULT_SIMILARITY_SETTINGS)}
+          className="px-3 py-1.5 bg-gray-700 rounded text-xs hover:bg-gray-600 transition-colors"
+        >
+          Defaults
+        </button>
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!isValid || !isDirty}
+          className={`px-3 py-1.5 bg-blue-600 rounded text-xs font-bold hover:bg-blue-700 transition-colors ${!isValid || !isDirty ? "opacity-50 cursor-not-allowed" : ""}`}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SimilaritySettingsPanel;
@@ -1,226 +1,275 @@
-import React, { useEffect, useRef, useState, useCallback } from "react";
-import { LogLevel, SimliClient } from "simli-client";
-import { GoogleGenAI } from "@google/genai";
-
-const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-
-if (!apiKey) {
-  throw new Error("VITE_GEMINI_API_KEY environment variable not set.");
-}
-
-const VITE_PROJECT_ID = import.meta.env.VITE_PROJECT_ID;
-const VITE_LOCATION = import.meta.env.VITE_LOCATION;
-const VITE_MODEL_ID = import.meta.env.VITE_MODEL_ID;
-
-if (!VITE_MODEL_ID) {
-  throw new Error("VITE_MODEL_ID environment variable not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey });
+import React, { useEffect, useRef, useState } from "react";
+import { GeminiLiveSession } from "../lib/gemini/GeminiLiveSession";
+import {
+  GeminiConnection,
+  type ConnectionStatus,
+} from "../lib/gemini/GeminiConnection";
+import { fetchToken } from "../lib/api";
+import {
+  DEFAULT_AVATAR_KIND,
+  LocalFaceRenderer,
+  createAvatarRenderer,
+  type AvatarRenderer,
+} from "../lib/avatar";
+import { ToolRegistry } from "../lib/tools/ToolRegistry";
+import {
+  appendTranscription,
+  closeTurn,
+  closeTurns,
+  endTurn,
+  type ChatMessage,
+} from "../lib/chatHistory";
+import { createProducerTools } from "../tools/producerTools";
+import { PERSONAS, DEFAULT_PERSONA_ID, getPersona } from "../personas";
+import { conceptFromToolArgs, putConcept } from "../lib/conceptLibrary";
+import ConceptLibrary from "./ConceptLibrary";
+import CoverArtPanel from "./CoverArtPanel";
+import { CoverArtStudio, getCover } from "../lib/coverArt";
+import { blobToDataUri } from "../lib/dataUri";
+import SessionReplay from "./SessionReplay";
+import { downloadBlob } from "../lib/download";
+import {
+  createPcmCaptureNode,
+  sendPcmCaptureCommand,
+  type PcmCaptureMessage,
+} from "../lib/audio/pcmCapture";
+import {
+  FRAME_RATES,
+  VideoFrameSampler,
+  loadFrameRate,
+  openVideoStream,
+  saveFrameRate,
+  type VideoSourceKind,
+} from "../lib/video/VideoFrameSampler";
+import {
+  ACCEPTED_TYPES,
+  AttachmentError,
+  MAX_ATTACHMENTS,
+  readAttachment,
+  toPreview,
+  toUserParts,
+  type Attachment,
+} from "../lib/attachments";
+import AttachmentList from "./AttachmentList";
+import VoiceSettingsPanel from "./VoiceSettingsPanel";
+import ConnectionStatusBadge from "./ConnectionStatusBadge";
+import {
+  loadVoiceSettings,
+  saveVoiceSettings,
+  toRealtimeInputConfig,
+  type VoiceSettings,
+} from "../lib/voiceSettings";
+import {
+  SessionRecorder,
+  embedCoverImages,
+  parseSessionLog,
+  sessionLogFilename,
+  type SessionLog,
+} from "../lib/sessionLog";
+import { clearMeeting, loadMeeting, saveMeeting } from "../lib/meetingStore";
+import {
+  loadSimilaritySettings,
+  saveSimilaritySettings,
+  type SimilaritySettings,
+} from "../lib/similaritySettings";
+
+const PERSONA_STORAGE_KEY = "radio-ai:persona";
+
+// Gemini input takes 16 kHz PCM
+const PCM_RATE = 16000;
+
+// Ephemeral tokens only work against the constrained v1alpha endpoint.
+const GEMINI_LIVE_URL =
+  "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContentConstrained";
 
 const SimliLiveGemini: React.FC = () => {
   // --- Refs ---
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
-  const simliClientRef = useRef<SimliClient | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
+  const avatarRef = useRef<AvatarRenderer | null>(null);
+  const connectionRef = useRef<GeminiConnection | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const processorRef = useRef<AudioWorkletNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const isInitializing = useRef(false); // Ref to prevent double-initialization in Strict Mode
-  const playbackContextRef = useRef<AudioContext | null>(null);
-  const isResuming = useRef(false);
-  const latestSessionHandle = useRef<string | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const isAtBottomRef = useRef(true);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
   const dominantColorRef = useRef<string | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null); // Session log for export/replay
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const attachInputRef = useRef<HTMLInputElement>(null);
+  const isTalkingRef = useRef(false); // Push-to-talk key/button held
+  const isEndingTurnRef = useRef(false); // Push-to-talk released, waiting for the last chunk
+  const videoStreamRef = useRef<MediaStream | null>(null); // Camera or screen share
+  const frameSamplerRef = useRef<VideoFrameSampler | null>(null);
+  const videoPreviewRef = useRef<HTMLVideoElement>(null);
 
   // --- State ---
-  const [isSimliReady, setIsSimliReady] = useState(false);
+  const [isAvatarReady, setIsAvatarReady] = useState(false);
+  // Why the chosen avatar failed to start, while the local face stands in
+  const [avatarFallbackReason, setAvatarFallbackReason] = useState<
+    string | null
+  >(null);
   const [error, setError] = useState<string | null>(null);
   const [hasInteracted, setHasInteracted] = useState(false); // Controls initialization
-  const [chatHistory, setChatHistory] = useState<
-    {
-      role: "user" | "assistant";
-      content: string;
-      id?: string;
-      image?: string;
-      isImageLoading?: boolean;
-    }[]
-  >([]);
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isMicMuted, setIsMicMuted] = useState(false);
   const [volume, setVolume] = useState(1);
   const [isAudioMuted, setIsAudioMuted] = useState(false);
   const [inputText, setInputText] = useState("");
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const canSend = inputText.trim() !== "" || attachments.length > 0;
   const [showTranscript, setShowTranscript] = useState(true);
   const [showThinking, setShowThinking] = useState(true);
+  // Read by the connection handlers, which are attached once per meeting
+  const showTranscriptRef = useRef(showTranscript);
+  showTranscriptRef.current = showTranscript;
+  const showThinkingRef = useRef(showThinking);
+  showThinkingRef.current = showThinking;
+  const [connectionStatus, setConnectionStatus] =
+    useState<ConnectionStatus | null>(null);
+  // Meeting left by a page reload, offered as "Resume meeting"
+  const [savedMeeting, setSavedMeeting] = useState(() =>
+    loadMeeting<ChatMessage>(),
+  );
+  const [resumeHandle, setResumeHandle] = useState<string | null>(null);
+  const startHandleRef = useRef<string | null>(null); // Handle the next meeting resumes
+  const restoredRef = useRef(false); // Meeting restored from meetingStore; no welcome
   const [isSpeaking, setIsSpeaking] = useState(false);
-
-  // --- Constants ---
-  const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-  const SIMLI_API_KEY = import.meta.env.VITE_SIMLI_API_KEY;
-  const SIMLI_FACE_ID = import.meta.env.VITE_SIMLI_FACE_ID;
-
-  /**
-   * Calls the backend to generate an embedding for the potential new album
-   * and checks for similarities against existing albums.
-   * Logic: 0.8+ is "Repetitive theme" (REJECT), < 0.4 is "Unique creative gap" (ACCEPT).
-   */
-  const similaritiesCheck = useCallback(
-    async (
-      title: string,
-      genre: string,
-      description: string,
-      tracklist: string,
-    ) => {
-      try {
-        console.log(`Checking similarities for concept: ${title}`);
-
-        // Call backend API
-        const response = await fetch(
-          "https://radio69.ai/api/albums/similarities-check",
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              title,
-              genre,
-              description: `${description}\n${tracklist}`,
-            }),
-          },
-        );
-
-        if (!response.ok) {
-          throw new Error(`API error: ${response.statusText}`);
-        }
-
-        const data = await response.json();
-
-        console.log(`Similarity check result for "${title}":`, data);
-
-        return data;
-      } catch (err) {
-        console.error("Failed to check similarities:", err);
-        return { status: "ERROR", reason: "Service unavailable", score: 0 };
-      }
-    },
-    [],
+  const [personaId, setPersonaId] = useState(
+    () => localStorage.getItem(PERSONA_STORAGE_KEY) ?? DEFAULT_PERSONA_ID,
   );
-
-  const generateImage = async (fullConceptText) => {
-    // 1. Clean the prompt: Remove emojis, special characters, and newlines
-    const cleanPrompt = fullConceptText
-      .replace(/[^\w\s,./:!?'"()-]/gi, "") // Remove emojis but allow standard punctuation
-      .replace(/\s+/g, " ") // Consolidate multiple spaces/newlines
-      .split("Tracklist")[0] // Cut off the tracklist metadata
-      .substring(0, 500) // Increase character limit
-      .trim();
-
-    try {
-      const response = await ai.models.generateContent({
-        model: "gemini-3-pro-image-preview",
-        contents: [
-          {
-            parts: [{ text: cleanPrompt }],
-          },
-        ],
-        config: {
-          responseModalities: ["IMAGE"],
-          imageConfig: {
-            aspectRatio: "1:1",
-            imageSize: "1K",
-          },
-        },
-      });
-
-      // Check if we have candidates and parts
-      const candidate = response.candidates?.[0];
-      // Find the inlineData part which contains the image
-      const imagePart = candidate?.content?.parts?.find(
-        (part) =>
-          part.inlineData && part.inlineData.mimeType.startsWith("image/"),
-      );
-
-      if (!imagePart || !imagePart.inlineData) {
-        console.log(
-          "Gemini response missing image data:",
-          JSON.stringify(response, null, 2),
-        );
-        throw new Error("No image generated by Gemini.");
+  const persona = getPersona(personaId);
+  const personaRef = useRef(persona); // For callbacks created once (tool registry)
+  personaRef.current = persona;
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [replayLog, setReplayLog] = useState<SessionLog | null>(null);
+  const [voiceSettings, setVoiceSettings] = useState(loadVoiceSettings);
+  const voiceSettingsRef = useRef(voiceSettings); // Read by the worklet handler and reconnects
+  voiceSettingsRef.current = voiceSettings;
+  // The turn mode the live session was set up with. A saved mode only takes
+  // over once a session with its realtimeInputConfig is ready.
+  const [sessionMode, setSessionMode] = useState(voiceSettings.mode);
+  const sessionModeRef = useRef(sessionMode);
+  sessionModeRef.current = sessionMode;
+  const pendingModeRef = useRef(voiceSettings.mode); // Mode of the session being set up
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const [similaritySettings, setSimilaritySettings] = useState(
+    loadSimilaritySettings,
+  );
+  const similaritySettingsRef = useRef(similaritySettings); // Read by the similarities_check tool
+  similaritySettingsRef.current = similaritySettings;
+  const [isTalking, setIsTalking] = useState(false);
+  const [videoSource, setVideoSource] = useState<VideoSourceKind | null>(null);
+  const [frameRate, setFrameRate] = useState(loadFrameRate);
+  const isPushToTalk = sessionMode === "pushToTalk";
+
+  // Cover art for printed concepts, shared by the chat and the library
+  const coverStudioRef = useRef<CoverArtStudio | null>(null);
+  const coverCallIdsRef = useRef(new Map<string, string>()); // Concept id → print_album_concept call id
+  if (!coverStudioRef.current) {
+    const studio = new CoverArtStudio();
+    studio.on("variant", (variant) => {
+      const callId = coverCallIdsRef.current.get(variant.conceptId);
+      if (callId) {
+        recorderRef.current?.record({
+          type: "image",
+          callId,
+          coverId: variant.id,
+        });
       }
-
-      const mimeType = imagePart.inlineData.mimeType;
-      const base64Data = imagePart.inlineData.data;
-
-      // Return the base64 Data URI
-      return `data:${mimeType};base64,${base64Data}`;
-    } catch (error) {
-      console.error("Gemini image generation failed:", error);
-      throw error;
-    }
-  };
+    });
+    studio.on("failed", ({ conceptId, error }) => {
+      const callId = coverCallIdsRef.current.get(conceptId);
+      if (callId) recorderRef.current?.record({ type: "image", callId, error });
+    });
+    coverStudioRef.current = studio;
+  }
+  const coverStudio = coverStudioRef.current;
+
+  // Tools exposed to Gemini. Created once; tool calls render as chat bubbles with id "msg-<callId>".
+  const toolRegistryRef = useRef<ToolRegistry | null>(null);
+  if (!toolRegistryRef.current) {
+    toolRegistryRef.current = new ToolRegistry().register(
+      ...createProducerTools({
+        onConceptPrinted: (concept, call, similarity) => {
+          const renderId = `msg-${call.id}`;
+
+          // Keep it in the local library so it survives reloads
+          const record = conceptFromToolArgs(concept, {
+            similarity,
+            personaId: personaRef.current.id,
+          });
+          const stored = putConcept(record).catch((err) =>
+            console.error("Failed to store concept locally:", err),
+          );
+          recorderRef.current?.record({
+            type: "concept",
+            callId: call.id,
+            conceptId: record.id,
+            title: record.title,
+            similarity,
+          });
+
+          // Cover art is generated in the background, not to block the
+          // Gemini response; the concept's bubble shows its progress
+          coverCallIdsRef.current.set(record.id, call.id);
+          updateMessage(renderId, {
+            concept: {
+              id: record.id,
+              artPrompt: record.artPrompt,
+              description: record.description,
+            },
+          });
+          stored.then(() => coverStudioRef.current.generate(record));
+        },
+        similaritySettings: () => similaritySettingsRef.current,
+      }),
+    );
+  }
+  const toolRegistry = toolRegistryRef.current;
 
   // --- Helpers ---
-  const handleDownload = (content: string, index: number) => {
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `chat-history-${index}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const updateMessage = (id: string, patch: Partial<ChatMessage>) => {
+    setChatHistory((prev) =>
+      prev.map((msg) => (msg.id === id ? { ...msg, ...patch } : msg)),
+    );
   };
 
-  const base64ToUint8Array = (base64: string) => {
-    const binaryString = window.atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+  const handleDownload = (content: string, index: number) => {
+    downloadBlob(
+      new Blob([content], { type: "text/plain" }),
+      `chat-history-${index}.txt`,
+    );
   };
 
-  const arrayBufferToBase64 = (buffer) => {
-    let binary = "";
-    const bytes = new Uint8Array(buffer);
-    const len = bytes.byteLength;
-
-    // Efficiently build the binary string
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-
-    return window.btoa(binary);
+  const handleExportSession = async () => {
+    if (!recorderRef.current || recorderRef.current.isEmpty) return;
+    const log = await embedCoverImages(
+      recorderRef.current.toJSON(),
+      async (coverId) => {
+        const cover = await getCover(coverId);
+        return cover && blobToDataUri(cover.image);
+      },
+    );
+    downloadBlob(
+      new Blob([JSON.stringify(log, null, 2)], { type: "application/json" }),
+      sessionLogFilename(log),
+    );
   };
 
-  // Downsample form 24000 (Gemini) to 16000 (Simli)
-  const downsampleTo16k = (audioData: Int16Array) => {
-    const ratio = 1.5;
-    const newLength = Math.round(audioData.length / ratio);
-    const result = new Int16Array(newLength);
-
-    for (let i = 0; i < newLength; i++) {
-      const center = Math.floor(i * ratio);
-      // Weighted anti-aliasing filter
-      if (center > 0 && center < audioData.length - 1) {
-        result[i] =
-          audioData[center - 1] * 0.25 +
-          audioData[center] * 0.5 +
-          audioData[center + 1] * 0.25;
-      } else {
-        result[i] = audioData[center];
-      }
+  const handleImportSession = async (file: File) => {
+    try {
+      setReplayLog(parseSessionLog(await file.text()));
+    } catch (e: any) {
+      console.error("Failed to import session:", e);
+      setError("Import Error: " + e.message);
     }
-    return result;
   };
 
   // --- Initialization ---
@@ -231,776 +280,546 @@ const SimliLiveGemini: React.FC = () => {
     isInitializing.current = true;
 
     setError("");
+    const elements = {
+      videoElement: videoRef.current,
+      audioElement: audioRef.current,
+    };
 
     try {
-      console.log("Initializing Simli...");
-
-      // 1. Get Simli Token (Client-side directly to Simli API)
-      const simliConfig = {
-        faceId: SIMLI_FACE_ID,
-        handleSilence: true,
-        maxSessionLength: 3600,
-        maxIdleTime: 600,
-      };
-
-      const tokenResp = await fetch("https://api.simli.ai/compose/token", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-simli-api-key": SIMLI_API_KEY,
-        },
-        body: JSON.stringify(simliConfig),
-      });
-      if (!tokenResp.ok) throw new Error("Failed to get Simli token");
-      const tokenData = await tokenResp.json();
-
-      // 2. Get ICE Servers
-      const iceResp = await fetch("https://api.simli.ai/compose/ice", {
-        method: "GET",
-        headers: { "x-simli-api-key": SIMLI_API_KEY }, // Warning: exposing API Key
+      // 1. Create and start the avatar (Simli unless configured otherwise)
+      const avatar = await createAvatarRenderer(DEFAULT_AVATAR_KIND, elements, {
+        faceId: persona.simliFaceId,
       });
-      const iceServers = iceResp.ok
-        ? await iceResp.json()
-        : [{ urls: ["stun:stun.l.google.com:19302"] }];
-
-      // 3. Initialize Simli Client
-      const client = new SimliClient(
-        tokenData.session_token,
-        videoRef.current,
-        audioRef.current,
-        iceServers,
-        LogLevel.ERROR,
-        "p2p",
-        "websockets",
-        "wss://api.simli.ai",
-        3000,
-      );
-
-      simliClientRef.current = client;
-
-      simliClientRef.current.on("speaking", () => {
-        console.log("SPEAKING...");
-        setIsSpeaking(true);
-      });
-      simliClientRef.current.on("silent", () => {
-        console.log("SILENT...");
-        setIsSpeaking(false);
-      });
-      simliClientRef.current.on("stop", () =>
-        console.log("SimliClient disconnected"),
-      );
-
-      await client.start();
-      console.log("Simli Client Started");
-      setIsSimliReady(true);
-
-      // 4. Connect to Gemini Live
-      connectToGemini();
+      console.log(`Initializing ${avatar.name}...`);
+      await startAvatar(avatar);
     } catch (e: any) {
-      console.error(e);
-      setError("Init Error: " + e.message);
+      // Token, ICE or start failure: the meeting goes on with the local face
+      console.error("Avatar failed to start, using the local avatar:", e);
+      const failed = avatarRef.current;
+      avatarRef.current = null;
+      failed?.removeAllListeners();
+      Promise.resolve(failed?.stop()).catch(() => {});
+
+      const reason = e?.message || String(e);
+      try {
+        await startAvatar(
+          new LocalFaceRenderer(elements.videoElement, elements.audioElement),
+        );
+      } catch (err: any) {
+        console.error(err);
+        setError("Init Error: " + err.message);
+        return;
+      }
+      recorderRef.current?.record({
+        type: "connection",
+        state: "avatarFallback",
+        detail: reason,
+      });
+      setAvatarFallbackReason(reason);
     }
-  };
-
-  const connectToGemini = (resumeHandle: string | null = null) => {
-    const encodedKey = GEMINI_API_KEY; // Should be valid
-    const url = `wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent?key=${encodedKey}`;
 
-    // Create WebSocket with correct protocol version if needed, or just default
-    const ws = new WebSocket(url);
-
-    // If not doing a seamless resumption, set as main socket immediately
-    if (!isResuming.current) {
-      wsRef.current = ws;
-    }
+    // 2. Connect to Gemini Live
+    connectToGemini();
+  };
 
-    ws.onopen = () => {
-      const currentSessionId = resumeHandle;
+  const startAvatar = async (avatar: AvatarRenderer) => {
+    avatarRef.current = avatar;
+    avatar.on("speaking", () => setIsSpeaking(true));
+    avatar.on("silent", () => setIsSpeaking(false));
+    avatar.on("stop", () => console.log(`${avatar.name} disconnected`));
 
-      console.log(
-        `Gemini WebSocket Connected. Resuming? ${!!resumeHandle}. Session ID: ${currentSessionId || "None"}`,
-      );
+    await avatar.start();
+    console.log(`${avatar.name} started`);
+    setIsAvatarReady(true);
+  };
 
-      // Initial Setup Message
-      // Note: Gemini Live API often requires a specific 'setup' payload as the VERY FIRST message.
-      const setupMsg = {
-        setup: {
-          //model: `projects/${}/locations/${VITE_LOCATION}/models/${VITE_MODEL_ID}`,
-          model: VITE_MODEL_ID,
-          ...(resumeHandle
-            ? { sessionResumption: { handle: resumeHandle } }
-            : {}),
-          realtimeInputConfig: {
-            automaticActivityDetection: {
-              disabled: false,
-              startOfSpeechSensitivity: "START_SENSITIVITY_LOW",
-              end_of_speech_sensitivity: "END_SENSITIVITY_LOW",
-              prefix_padding_ms: 20,
-              silence_duration_ms: 200,
-            },
-            activityHandling: "START_OF_ACTIVITY_INTERRUPTS",
-          },
-          //proactivity: { proactiveAudio: true },
-          generation_config: {
-            response_modalities: ["AUDIO"],
-            speech_config: {
-              voice_config: {
-                prebuilt_voice_config: { voice_name: "Laomedeia" },
-              },
+  // Builds a session for the connection. Every session (including
+  // resumptions) needs a fresh single-use token.
+  const createGeminiSession = async (resumeHandle: string | null) => {
+    // A mocked backend answers with its own `url`. `?scenario=` on the page
+    // picks the mock scenario.
+    const liveToken = await fetchToken<{
+      token: string;
+      model: string;
+      url?: string;
+    }>("gemini", {
+      scenario:
+        new URLSearchParams(location.search).get("scenario") ?? undefined,
+    });
+    const url = new URL(liveToken.url ?? GEMINI_LIVE_URL, location.href);
+    url.protocol = url.protocol.replace(/^http/, "ws");
+    url.searchParams.set("access_token", liveToken.token);
+    recorderRef.current?.setModel(liveToken.model);
+    const persona = personaRef.current;
+    const voice = voiceSettingsRef.current;
+    pendingModeRef.current = voice.mode;
+
+    console.log(
+      `Creating Gemini session. Resuming? ${!!resumeHandle}. Session ID: ${resumeHandle || "None"}`,
+    );
+
+    return new GeminiLiveSession({
+      url: url.toString(),
+      setup: {
+        model: liveToken.model,
+        // Always enabled so the server keeps sending resumption handles
+        sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
+        realtimeInputConfig: toRealtimeInputConfig(voice),
+        //proactivity: { proactiveAudio: true },
+        generationConfig: {
+          responseModalities: ["AUDIO"],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: persona.voiceName },
             },
           },
-          input_audio_transcription: {},
-          output_audio_transcription: {},
-          system_instruction: {
-            parts: [
-              {
-                text: `
-Role: Alisa, Creative Producer for 'Radio AI'. Expert in high-concept, innovative musical album brainstorming.
-Objective: Generate unique album concepts that provide a cohesive "soul" for AI generation.
-
-If you need some thinking to do, say "Hmm..." or "Let me think..." to indicate you're working on it.
-This is especially important if you're doing market research or compiling a list of tracks, which can take a moment.
-
-Workflow:
-Context Check: Call get_recent_concepts immediately. Use these to ensure the new idea is a "Repertoire Gap" (unique) rather than a "Crowded Space."
-Market Research: Use Google Search to find trending music themes or industry news to incorporate fresh insights.
-Concept Ideation: Brainstorm a title and high-concept fusion.
-Validation: Call similarities_check for your candidate idea.
-If REJECT: Pivot to a new direction. Repeat up to 5 times.
-If ACCEPT or ERROR: Proceed to finalization.
-
-Finalization: Print the concept using the print_album_concept function and speak your response to the user.
-
-Concept Requirements:
-Narrative: A specific story or scenario (e.g., 1980s retro ski race).
-Atmosphere: Sensory keywords (e.g., "misty and ethereal").
-Instrumentation: Specific tools (e.g., "lutes," "analog drum machines").
-Vocals: Style description (e.g., "whispered," "operatic," or Instrumental).
-Tracklist: Generate 5-20 tracks following a narrative arc.
-Format:
-Track 1,2,3,...: "Title" - [Description] - [Style Tags]. 
-[new line]
-Description and Style of track is a must and should be vivid and specific, not generic (print, not read aloud).
-Note: Only read 1-2 'signature' tracks aloud; print (print_album_concept) the rest.
-
-Art Prompt: A detailed visual prompt for AI image generation.
-
-Constraints:
-Be Bold: Favor unexpected genre fusions.
-Function First: You MUST call print_album_concept(title, genre, description, tracklist, instrumental, art_prompt) to finalize.
-
-Voice: Maintain a professional, creative, and witty persona.                
-`,
-              },
-            ],
-          },
-          tools: [
-            { google_search: {} },
-            {
-              functionDeclarations: [
-                {
-                  name: "print_album_concept",
-                  description:
-                    "Saves a finalized musical album concept to the database.",
-                  parameters: {
-                    type: "OBJECT",
-                    properties: {
-                      title: {
-                        type: "STRING",
-                        description: "The title of the album",
-                      },
-                      genre: {
-                        type: "STRING",
-                        description: "The genre fusion",
-                      },
-                      description: {
-                        type: "STRING",
-                        description: "Detailed concept summary",
-                      },
-                      tracklist: {
-                        type: "STRING",
-                        description: "List of tracks in the album",
-                      },
-                      instrumental: {
-                        type: "BOOLEAN",
-                        description:
-                          "Whether the album is instrumental or has vocals",
-                      },
-                      art_prompt: {
-                        type: "STRING",
-                        description: "Visual prompt for cover art",
-                      },
-                    },
-                    required: [
-                      "title",
-                      "genre",
-                      "description",
-                      "tracklist",
-                      "instrumental",
-                      "art_prompt",
-                    ],
-                  },
-                },
-                {
-                  name: "get_recent_concepts",
-                  description:
-                    "Retrieves the recent album concepts (Title, Genre, Description) from the local database.",
-                  parameters: { type: "object", properties: {} },
-                },
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction: {
+          parts: [{ text: persona.systemPrompt }],
+        },
+        tools: [
+          ...(persona.googleSearch ? [{ googleSearch: {} }] : []),
+          ...(persona.tools.length > 0
+            ? [
                 {
-                  name: "similarities_check",
-                  description:
-                    "Checks for similarities between album concepts to avoid duplication.",
-                  parameters: {
-                    type: "OBJECT",
-                    properties: {
-                      title: {
-                        type: "STRING",
-                        description: "The title of the album",
-                      },
-                      genre: {
-                        type: "STRING",
-                        description: "The genre fusion",
-                      },
-                      description: {
-                        type: "STRING",
-                        description: "Detailed concept summary",
-                      },
-                      tracklist: {
-                        type: "STRING",
-                        description: "List of tracks in the album",
-                      },
-                    },
-                    required: ["title", "genre", "description", "tracklist"],
-                  },
+                  functionDeclarations: toolRegistry.declarations(
+                    persona.tools,
+                  ),
                 },
-              ],
-            },
-          ],
-        },
-      };
+              ]
+            : []),
+        ],
+      },
+    });
+  };
 
-      ws.send(JSON.stringify(setupMsg));
+  // One connection per meeting. It survives resumptions and reconnects, so
+  // the handlers below are attached once.
+  const connectToGemini = () => {
+    const connection = new GeminiConnection({
+      createSession: createGeminiSession,
+    });
+    connectionRef.current = connection;
+
+    connection.on("status", (status) => {
+      setConnectionStatus(status);
+      if (status.state === "reconnecting" && status.retryAt) {
+        recorderRef.current?.record({
+          type: "connection",
+          state: "reconnecting",
+          detail: status.error,
+        });
+      } else if (status.state === "failed") {
+        recorderRef.current?.record({
+          type: "connection",
+          state: "failed",
+          detail: status.error,
+        });
+      } else if (status.state === "idle") {
+        recorderRef.current?.record({ type: "connection", state: "closed" });
+      }
+    });
+
+    connection.on("ready", ({ resumed, initial }) => {
+      console.log("Setup complete. Gemini is ready for interactions.");
+      setError(null);
+      sessionModeRef.current = pendingModeRef.current;
+      setSessionMode(pendingModeRef.current);
+      recorderRef.current?.record({
+        type: "connection",
+        state: resumed ? "resumed" : "connected",
+      });
 
-      if (resumeHandle) {
-        console.log("Resuming session... skipping welcome message.");
-        return;
+      // A fresh reconnect keeps the mic running and doesn't greet again
+      if (!initial) return;
+
+      // Sending the welcome message only after setupComplete prevents race conditions where
+      // 'clientContent' and 'realtimeInput' (audio) arrive before the session is ready.
+      // A restored meeting already had its welcome, even when its handle
+      // expired and the session starts fresh
+      const { welcomeMessage } = personaRef.current;
+      if (
+        !resumed &&
+        !restoredRef.current &&
+        connection.sendText(welcomeMessage)
+      ) {
+        console.log("Sent Welcome Message");
+        recorderRef.current?.record({
+          type: "user",
+          source: "prompt",
+          text: welcomeMessage,
+        });
       }
 
-      // Start recording after sending the welcome message
       startAudioRecording();
-    };
-
-    ws.onmessage = async (event: MessageEvent) => {
-      const rawData = await event.data.text();
-      const response = JSON.parse(rawData);
-
-      // Seamless Resumption: Switch to new socket on first message
-      if (ws !== wsRef.current && isResuming.current) {
-        console.log(
-          "New session established via resumption. Switching sockets.",
-        );
-        if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-          console.log("Closing old socket...");
-          wsRef.current.close(1000, "Resumption Complete");
-        }
-        wsRef.current = ws;
-        isResuming.current = false;
+    });
+
+    connection.on("toolCall", async (functionCalls) => {
+      const startedAt = performance.now();
+      // A tool call ends what the model was saying; it goes on in a new turn
+      setChatHistory(closeTurns);
+      for (const call of functionCalls) {
+        recorderRef.current?.record({
+          type: "toolCall",
+          id: call.id,
+          name: call.name,
+          args: call.args ?? {},
+        });
       }
 
-      // Handle Setup Completion (if applicable) or Initial triggering
-      // Note: Gemini API doesn't always send a specific "setup complete" message,
-      // but waiting for the first message or just delaying can help.
-      // However, to be robust, we'll just check if this is the first interaction.
-
-      // ... existing message handling ...
-
-      if (response.setupComplete) {
-        console.log("Setup complete. Gemini is ready for interactions.");
-
-        // Sending the welcome message with a slight delay allows the server to process the setup message first.
-        // This prevents race conditions where 'client_content' and 'realtime_input' (audio) arrive before the session is ready.
-        const welcome = {
-          client_content: {
-            turns: [
-              {
-                role: "user",
-                parts: [
-                  {
-                    text: "Hello, Creative Producer! Welcome to the meeting! Give me a casual greeting and tell me you're ready to start brainstorming albums. Use Google Search if you need to know what's trending in music right now. Give me one brilliant idea for an album concept to start with.",
-                  },
-                ],
-              },
-            ],
-            turn_complete: true,
-          },
-        };
-
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify(welcome));
-          console.log("Sent Welcome Message");
-        }
-      } else if (response.toolCall) {
-        const functionResponses: any[] = [];
-
-        for (const fc of response.toolCall.functionCalls) {
-          if (fc.name === "print_album_concept") {
-            console.log("Producer is printing a concept...");
-
-            const concept = fc.args;
-
-            console.log(
-              `📀 NEW CONCEPT:\n${concept.title} (${concept.genre})\nDescription:\n${concept.description}\nTracklist:\n${concept.tracklist}\nAlbum art prompt:\n${concept.art_prompt}`,
-            );
-
-            const renderId = `msg-${Date.now()}`;
-
+      const functionResponses = await toolRegistry.execute(
+        functionCalls,
+        {
+          onStart: (call, tool) => {
+            if (!tool.render) return;
             setChatHistory((prev) => [
               ...prev,
               {
-                id: renderId,
+                id: `msg-${call.id}`,
                 role: "assistant",
-                content: `📀 NEW CONCEPT:\n${concept.title} (${concept.genre})\nDescription:\n${concept.description}\nTracklist:\n${concept.tracklist}\nAlbum art prompt:\n${concept.art_prompt}`,
-                isImageLoading: true,
+                content: JSON.stringify(call.args ?? {}, null, 2),
+                tool: { name: call.name, args: call.args, status: "running" },
               },
             ]);
-
-            // 2. Prepare the success response for Gemini
-            functionResponses.push({
-              id: fc.id,
-              name: fc.name,
-              response: {
-                result: concept,
-              },
+          },
+          onSettled: (call, outcome, tool) => {
+            if (!outcome.ok) {
+              console.warn(`Tool call ${call.name} failed:`, outcome.error);
+            }
+            recorderRef.current?.record({
+              type: "toolResult",
+              id: call.id,
+              name: call.name,
+              ok: outcome.ok,
+              result: outcome.result,
+              error: outcome.error,
+              durationMs: Math.round(performance.now() - startedAt),
             });
-
-            console.log(
-              `Generating image: ${renderId} - Create album art for: ${concept.art_prompt}. ${concept.description}`,
+            if (!tool?.render) return;
+            setChatHistory((prev) =>
+              prev.map((msg) =>
+                msg.id === `msg-${call.id}` && msg.tool
+                  ? {
+                      ...msg,
+                      tool: outcome.ok
+                        ? {
+                            ...msg.tool,
+                            status: "done",
+                            result: outcome.result,
+                          }
+                        : {
+                            ...msg.tool,
+                            status: "error",
+                            error: outcome.error,
+                          },
+                    }
+                  : msg,
+              ),
             );
+          },
+        },
+        persona.tools,
+      );
 
-            // 3. Generate an image for the album art using the provided prompt.
-            // First put a placeholder, with progress indicator, then update with actual image URL once generated.
-            // The image generation must be done asynchronously, so not to block the Gemini response.
-            generateImage(
-              `Create album art for: ${concept.art_prompt}. ${concept.description}`,
-            )
-              .then((imageUrl) => {
-                console.log(`Generating image: ${renderId}`);
-
-                setChatHistory((prev) =>
-                  prev.map((msg) => {
-                    if (msg.id === renderId) {
-                      return { ...msg, image: imageUrl, isImageLoading: false };
-                    }
-                    return msg;
-                  }),
-                );
-              })
-              .catch((err) => {
-                console.error("Failed to generate concept image:", err);
-                setChatHistory((prev) =>
-                  prev.map((msg) => {
-                    if (msg.id === renderId) {
-                      return {
-                        ...msg,
-                        isImageLoading: false,
-                        content: msg.content + "\n[Image Generation Failed]",
-                      };
-                    }
-                    return msg;
-                  }),
-                );
-              });
-          } else if (fc.name === "get_recent_concepts") {
-            console.log("Producer is requesting recent concepts...");
-
-            // Real data https://radio69.ai/
-            // | GET | `/api/user-concepts/recent` | Get Recent Concepts | Public | Query: `username`, `limit` |
-            let simplifiedConcepts: any[] = [];
-
-            try {
-              const response = await fetch(
-                "https://radio69.ai/api/user-concepts/recent?limit=10",
-              );
-
-              if (!response.ok) {
-                throw new Error(`API error: ${response.statusText}`);
-              }
-
-              const data = await response.json();
-
-              // Map API response to expected format
-              simplifiedConcepts = Array.isArray(data)
-                ? data.map((c: any) => ({
-                    title: c.title || "Untitled",
-                    description: c.description || "No description",
-                  }))
-                : [];
-
-              console.log(
-                `Fetched ${simplifiedConcepts.length} recent concepts from API`,
-              );
-            } catch (error) {
-              console.error("Failed to fetch recent concepts:", error);
-              simplifiedConcepts = [];
-            }
+      if (functionResponses.length === 0) return;
 
-            functionResponses.push({
-              id: fc.id,
-              name: fc.name,
-              response: {
-                result: simplifiedConcepts,
-              },
-            });
+      // Send ACK back to Gemini to keep the conversation flowing
+      connection.sendToolResponse(functionResponses);
+    });
 
-            console.log(
-              `Sent ${simplifiedConcepts.length} recent concepts to Producer.`,
-            );
-          } else if (fc.name === "similarities_check") {
-            // "title", "genre", "description", "tracklist"
-            const concept = fc.args;
+    connection.on("toolCallCancellation", (ids) => {
+      console.log("Tool calls cancelled:", ids);
+      toolRegistry.cancel(ids);
+      recorderRef.current?.record({ type: "toolCancelled", ids });
+    });
 
-            console.log(
-              `Producer requesting similarities check:\n${concept.title} (${concept.genre})\nDescription:\n${concept.description}\nTracklist:\n${concept.tracklist}`,
-            );
+    connection.on("goAway", ({ timeLeft }) => {
+      console.log(
+        `Gemini signaled shutdown. Time left: ${timeLeft}, resumption Handle: ${connection.resumeHandle}`,
+      );
+      recorderRef.current?.record({
+        type: "connection",
+        state: "goAway",
+        detail: timeLeft,
+      });
 
-            setChatHistory((prev) => [
-              ...prev,
-              {
-                role: "assistant",
-                content: `Producer requesting similarities check:\n${concept.title} (${concept.genre})\nDescription:\n${concept.description}\nTracklist:\n${concept.tracklist}`,
-              },
-            ]);
+      // The connection resumes on its own
+    });
 
-            try {
-              const similaritiesResult = await similaritiesCheck(
-                concept.title,
-                concept.genre,
-                concept.description,
-                concept.tracklist,
-              );
+    connection.on("resumptionUpdate", (update) => {
+      console.log("Session Resumption Update:", update);
 
-              console.log(
-                `Similarity Result: [${similaritiesResult?.status}]: ${similaritiesResult?.reason}, Score: ${similaritiesResult?.score}`,
-              );
+      if (update.resumable && update.newHandle) {
+        console.log("Updated session ID for resumption:", update.newHandle);
+        setResumeHandle(update.newHandle);
+      }
+    });
 
-              setChatHistory((prev) => [
-                ...prev,
-                {
-                  role: "assistant",
-                  content: `Similarity Result: [${similaritiesResult?.status}]: ${similaritiesResult?.reason}, Score: ${similaritiesResult?.score}`,
-                },
-              ]);
+    connection.on("interrupted", () => {
+      console.warn("AI Interrupted by User. Clearing buffers...");
+      recorderRef.current?.record({ type: "interrupted" });
+      setChatHistory((prev) => endTurn(prev, "interrupted"));
 
-              functionResponses.push({
-                id: fc.id,
-                name: fc.name,
-                response: {
-                  result: similaritiesResult,
-                },
-              });
-            } catch (err) {
-              console.error("Error during similarities check:", err);
+      if (avatarRef.current) {
+        // 1. Drop the audio the avatar still has queued
+        avatarRef.current.flush();
 
-              setChatHistory((prev) => [
-                ...prev,
-                {
-                  role: "assistant",
-                  content: "Error during similarities check!",
-                },
-              ]);
-
-              functionResponses.push({
-                id: fc.id,
-                name: fc.name,
-                response: {
-                  result: {
-                    status: "ERROR",
-                    reason: "Service unavailable",
-                    score: 0,
-                  },
-                },
-              });
-            }
-          }
-        }
+        // 2. Reset the UI "Speaking" state immediately
+        setIsSpeaking(false);
+      }
 
-        // 3. Send ACK back to Gemini to keep the conversation flowing
-        wsRef.current?.send(
-          JSON.stringify({
-            tool_response: { function_responses: functionResponses },
-          }),
-        );
-      } else if (response.goAway) {
-        const timeLeft = response.goAway.timeLeft;
+      // 3. Optional: Reset the local audio element just in case
+      if (audioRef.current) {
+        audioRef.current.pause();
+        audioRef.current.currentTime = 0;
+      }
+    });
 
-        console.log(
-          `Gemini signaled shutdown. Time left: ${timeLeft}, resumption Handle: ${latestSessionHandle.current}, isResuming: ${isResuming.current}`,
-        );
+    connection.on("audio", ({ pcm, sampleRate }) => {
+      if (!avatarRef.current) return;
 
-        if (latestSessionHandle.current && !isResuming.current) {
-          isResuming.current = true;
-          // Trigger pre-emptive resumption
-          console.log("Triggering pre-emptive session resumption in 3s...");
-          setTimeout(() => {
-            const handle = latestSessionHandle.current;
-            if (handle) {
-              console.log("Connecting with resumption handle:", handle);
-              connectToGemini(handle);
-            } else {
-              console.warn("Resumption handle:", handle);
-            }
-          }, 3000);
+      if (audioRef.current) {
+        if (audioRef.current.paused) {
+          audioRef.current
+            .play()
+            .catch((e) => console.error("Playback failed:", e));
         }
-      } else if (response.sessionResumptionUpdate) {
-        console.log(
-          "Session Resumption Update:",
-          response.sessionResumptionUpdate,
-        );
+        audioRef.current.muted = false; // Ensure no lingering mute from barge-in
+      }
 
-        if (response.sessionResumptionUpdate.resumable) {
-          latestSessionHandle.current =
-            response.sessionResumptionUpdate.newHandle;
-          console.log(
-            "Updated session ID for resumption:",
-            latestSessionHandle.current,
-          );
-        }
-      } else if (response.serverContent) {
-        if (response.serverContent.interrupted) {
-          console.warn("AI Interrupted by User. Clearing buffers...");
+      avatarRef.current.pushAudio(pcm, sampleRate);
+    });
 
-          if (simliClientRef.current) {
-            // 1. Official method to flush the audio/video jitter buffer
-            simliClientRef.current.ClearBuffer();
+    connection.on("text", ({ text }) => {
+      recorderRef.current?.record({ type: "thought", text });
+      if (showThinkingRef.current) {
+        setChatHistory((prev) => [
+          ...prev,
+          {
+            role: "assistant",
+            content: text,
+          },
+        ]);
+      }
+    });
 
-            // 2. Reset the UI "Speaking" state immediately
-            setIsSpeaking(false);
-          }
+    connection.on("codeExecutionResult", ({ outcome, output }) => {
+      recorderRef.current?.record({
+        type: "thought",
+        text: `${outcome}: ${output}`,
+      });
+      if (showThinkingRef.current) {
+        setChatHistory((prev) => [
+          ...prev,
+          {
+            role: "assistant",
+            content: `${outcome}: ${output}`,
+          },
+        ]);
+      }
+    });
 
-          // 3. Optional: Reset the local audio element just in case
-          if (audioRef.current) {
-            audioRef.current.pause();
-            audioRef.current.currentTime = 0;
-          }
-        } else if (response.serverContent.modelTurn?.parts) {
-          // 1. Check for incoming audio chunks
-          const audioPart = response.serverContent?.modelTurn?.parts?.find(
-            (p) => p.inlineData?.mimeType.startsWith("audio/pcm"),
-          );
+    connection.on("transcription", ({ source, text }) => {
+      recorderRef.current?.appendTranscript(
+        source === "output" ? "assistant" : "user",
+        text,
+      );
 
-          if (audioPart) {
-            const pcm24kRaw = base64ToUint8Array(audioPart.inlineData.data);
+      if (source === "output" && !showTranscriptRef.current) return;
+      setChatHistory((prev) => appendTranscription(prev, source, text));
+    });
 
-            const int16_24k = new Int16Array(
-              pcm24kRaw.buffer,
-              pcm24kRaw.byteOffset,
-              pcm24kRaw.byteLength / 2,
-            );
+    connection.on("turnComplete", () => {
+      recorderRef.current?.record({ type: "turnComplete" });
+      setChatHistory((prev) => endTurn(prev, "turnComplete"));
+    });
 
-            const int16_16k = downsampleTo16k(int16_24k);
+    connection.on("groundingMetadata", (metadata) => {
+      console.log("Received grounding metadata:", metadata);
+      recorderRef.current?.record({ type: "grounding", metadata });
+    });
 
-            if (simliClientRef.current) {
-              const audioBuffer = new Uint8Array(
-                int16_16k.buffer,
-                int16_16k.byteOffset,
-                int16_16k.byteLength,
-              );
+    connection.start(startHandleRef.current);
+  };
 
-              if (audioRef.current) {
-                if (audioRef.current.paused) {
-                  audioRef.current
-                    .play()
-                    .catch((e) => console.error("Playback failed:", e));
-                }
-                audioRef.current.muted = false; // Ensure no lingering mute from barge-in
-              }
+  const startMeeting = () => {
+    clearMeeting();
+    setSavedMeeting(null);
+    startHandleRef.current = null;
+    restoredRef.current = false;
+    setResumeHandle(null);
+    setHasInteracted(true);
+  };
 
-              simliClientRef.current.sendAudioData(audioBuffer);
-            }
-          } else {
-            //console.log("Received serverContent:", response.serverContent);
-
-            if (showThinking) {
-              response.serverContent.modelTurn?.parts.forEach((part) => {
-                if (part.text) {
-                  setChatHistory((prev) => [
-                    ...prev,
-                    {
-                      role: "assistant",
-                      content: part.text,
-                    },
-                  ]);
-                } else if (part.codeExecutionResult) {
-                  setChatHistory((prev) => [
-                    ...prev,
-                    {
-                      role: "assistant",
-                      content: `${part.codeExecutionResult.outcome}: ${part.codeExecutionResult.output}`,
-                    },
-                  ]);
-                }
-              });
-            }
-          }
-        } else {
-          //console.log("Received serverContent:", response.serverContent);
-
-          // if the message was response.serverContent.outputTranscription, append it to the last message in the chat history instead of creating a new message
-          // Only response.serverContent.outputTranscription messages should be appended, all other messages (like modelTurn) should create a new message in the chat history
-          if (response.serverContent.outputTranscription) {
-            if (
-              showTranscript &&
-              response.serverContent.outputTranscription.text.trim() !== ""
-            ) {
-              // Append to last message if it's from assistant and response.serverContent.outputTranscription
-              setChatHistory((prev) => {
-                const lastMsg = prev[prev.length - 1];
-                if (
-                  lastMsg &&
-                  lastMsg.role === "assistant" &&
-                  !lastMsg.isImageLoading &&
-                  !lastMsg.id?.startsWith("msg-")
-                ) {
-                  const newHistory = [...prev];
-                  newHistory[newHistory.length - 1] = {
-                    ...lastMsg,
-                    content:
-                      lastMsg.content +
-                      response.serverContent.outputTranscription.text,
-                  };
-                  return newHistory;
-                } else {
-                  return [
-                    ...prev,
-                    {
-                      role: "assistant",
-                      content: response.serverContent.outputTranscription.text,
-                    },
-                  ];
-                }
-              });
-            }
-          } else if (response.serverContent.inputTranscription) {
-            // Append to last message if it's from user and response.serverContent.inputTranscription
-            setChatHistory((prev) => {
-              const lastMsg = prev[prev.length - 1];
-              if (lastMsg && lastMsg.role === "user") {
-                const newHistory = [...prev];
-                newHistory[newHistory.length - 1] = {
-                  ...lastMsg,
-                  content:
-                    lastMsg.content +
-                    response.serverContent.inputTranscription.text,
-                };
-                return newHistory;
-              } else {
-                return [
-                  ...prev,
-                  {
-                    role: "user",
-                    content: response.serverContent.inputTranscription.text,
-                  },
-                ];
-              }
-            });
-          } else if (response.serverContent.generationComplete) {
-            setChatHistory((prev) => [
-              ...prev,
-              {
-                role: "assistant",
-                content: "Generation complete...",
+  // Restores the transcript and reconnects with the saved handle. Without a
+  // handle (expired) only the transcript comes back.
+  const resumeMeeting = () => {
+    const saved = savedMeeting;
+    setSavedMeeting(null);
+    setPersonaId(saved.personaId);
+    const restored: ChatMessage[] = saved.chatHistory.map((msg) => ({
+      ...msg,
+      // Work in flight was lost with the page
+      tool:
+        msg.tool?.status === "running"
+          ? {
+              ...msg.tool,
+              status: "error",
+              error: {
+                code: "HANDLER_ERROR",
+                message: "Interrupted by a page reload",
               },
-            ]);
-          } else if (response.serverContent.turnComplete) {
-            setChatHistory((prev) => [
-              ...prev,
-              {
-                role: "assistant",
-                content: "Turn complete...",
-              },
-            ]);
-          } else if (response.serverContent.groundingMetadata) {
-            console.log(
-              "Received grounding metadata:",
-              response.serverContent.groundingMetadata,
-            );
-          } else {
-            console.warn("Received serverContent:", response.serverContent);
-          }
-        }
-      } else {
-        console.warn("Received message:", response);
-      }
-    };
+            }
+          : msg.tool,
+    }));
+    // A reply still being spoken was cut off by the reload
+    setChatHistory(
+      closeTurn(closeTurn(restored, "user"), "assistant", "interrupted"),
+    );
+    startHandleRef.current = saved.resumeHandle;
+    restoredRef.current = true;
+    setResumeHandle(saved.resumeHandle);
+    setHasInteracted(true);
+  };
 
-    ws.onerror = (e) => {
-      console.error("Gemini WebSocket Error", e);
-      setError("Gemini Connection Error");
-    };
+  // Applies from the next similarities_check
+  const handleSaveSimilaritySettings = (settings: SimilaritySettings) => {
+    setSimilaritySettings(settings);
+    saveSimilaritySettings(settings);
+  };
 
-    ws.onclose = (event) => {
-      console.log("Gemini WebSocket Closed", event.code, event.reason);
+  const handleSaveVoiceSettings = (settings: VoiceSettings) => {
+    const previous = voiceSettingsRef.current;
+    setVoiceSettings(settings);
+    voiceSettingsRef.current = settings;
+    saveVoiceSettings(settings);
+    setShowVoiceSettings(false);
+    stopTalking();
+
+    // The mic chunk length applies to the running capture right away
+    if (processorRef.current) {
+      sendPcmCaptureCommand(processorRef.current, {
+        type: "configure",
+        frameMs: settings.micFrameMs,
+      });
+    }
 
-      // If this socket is not the active one, ignore the close event
-      if (ws !== wsRef.current) {
-        console.log("Inactive socket closed. Ignoring.");
-        return;
-      }
+    // Client-only fields (the mic chunk length) don't need a new session
+    const serverChanged =
+      JSON.stringify(toRealtimeInputConfig(previous)) !==
+      JSON.stringify(toRealtimeInputConfig(settings));
+    const connection = connectionRef.current;
+    if (!connection?.isActive) {
+      setSessionMode(settings.mode);
+      return;
+    }
+    if (!serverChanged) return;
 
-      if (event.code === 1008 || event.reason.includes("session not found")) {
-        console.log("Session invalid. Clearing session and retrying...");
-        connectToGemini();
-        return;
-      }
+    // The setup message can only change on a new connection. Until a session
+    // with it is ready, the mic keeps following the current session's mode.
+    if (!connection.resume()) {
+      console.warn("Cannot resume right now. Settings apply next session.");
+    }
+  };
 
-      // setError(`Gemini Connection Closed: ${event.code} ${event.reason}`);
-      setIsSimliReady(false); // Update UI state
-      if (simliClientRef.current) {
-        simliClientRef.current.stop();
-        simliClientRef.current = null;
-      }
-    };
+  // --- Push to Talk ---
+  const startTalking = () => {
+    if (sessionModeRef.current !== "pushToTalk" || isTalkingRef.current) return;
+    if (!connectionRef.current?.isActive) return;
+
+    isTalkingRef.current = true;
+    isEndingTurnRef.current = false;
+    setIsTalking(true);
+    connectionRef.current.sendActivityStart();
+  };
+
+  const stopTalking = () => {
+    if (!isTalkingRef.current) return;
+
+    isTalkingRef.current = false;
+    setIsTalking(false);
+
+    // Send the partially filled chunk first; activityEnd follows the "flushed" marker
+    if (processorRef.current) {
+      isEndingTurnRef.current = true;
+      sendPcmCaptureCommand(processorRef.current, { type: "flush" });
+    } else {
+      connectionRef.current?.sendActivityEnd();
+    }
   };
 
   const handleSendText = () => {
-    if (!inputText.trim()) return;
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+    if (!canSend) return;
+    if (!connectionRef.current?.isActive) {
       setError("Gemini is not connected. Please start interaction first.");
       return;
     }
 
-    // Construct Text Message for Gemini
-    const msg = {
-      client_content: {
-        turns: [
-          {
-            role: "user",
-            parts: [{ text: inputText }],
-          },
-        ],
-        turn_complete: true,
-      },
-    };
-
-    wsRef.current.send(JSON.stringify(msg));
+    // Queued while the connection resumes or reconnects. Attachments go as
+    // inline data parts of the same turn.
+    const text = inputText.trim();
+    connectionRef.current.sendClientContent([
+      { role: "user", parts: toUserParts(text, attachments) },
+    ]);
+    const previews = attachments.length
+      ? attachments.map(toPreview)
+      : undefined;
+    recorderRef.current?.record({
+      type: "user",
+      source: "text",
+      text,
+      attachments: previews,
+    });
 
     // Update local chat history
-    setChatHistory((prev) => [...prev, { role: "user", content: inputText }]);
+    setChatHistory((prev) => [
+      ...closeTurns(prev),
+      { role: "user", content: text, turn: "complete", attachments: previews },
+    ]);
     setInputText("");
+    setAttachments([]);
+    setAttachmentError(null);
+  };
+
+  const handleAttachFiles = async (files: File[]) => {
+    setAttachmentError(null);
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (files.length > room) {
+      setAttachmentError(`Up to ${MAX_ATTACHMENTS} attachments per message.`);
+    }
+
+    const read: Attachment[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        read.push(await readAttachment(file));
+      } catch (e: any) {
+        if (!(e instanceof AttachmentError)) console.error(e);
+        setAttachmentError(e.message);
+      }
+    }
+    setAttachments((prev) => [...prev, ...read].slice(0, MAX_ATTACHMENTS));
   };
 
   const startAudioRecording = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        audio: { sampleRate: 16000, channelCount: 1, echoCancellation: true },
+        audio: {
+          sampleRate: PCM_RATE,
+          channelCount: 1,
+          echoCancellation: true,
+        },
       });
 
       streamRef.current = stream;
 
-      const audioContext = new AudioContext({ sampleRate: 16000 });
+      const audioContext = new AudioContext({ sampleRate: PCM_RATE });
       audioContextRef.current = audioContext;
 
+      // Some browsers ignore the requested rate; the worklet resamples then
+      console.log(`Mic capture at ${audioContext.sampleRate} Hz`);
+
       if (audioContext.state === "suspended") {
         await audioContext.resume();
       }
@@ -1019,41 +838,36 @@ Voice: Maintain a professional, creative, and witty persona.
 
       startVisualizer();
 
-      await audioContext.audioWorklet.addModule("/pcm-processor.js");
-
-      const workletNode = new AudioWorkletNode(audioContext, "pcm-processor");
+      const workletNode = await createPcmCaptureNode(audioContext, {
+        targetRate: PCM_RATE,
+        frameMs: voiceSettingsRef.current.micFrameMs,
+      });
       processorRef.current = workletNode;
 
-      // Add this explicit message handler
-      workletNode.port.onmessage = (event) => {
-        if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN)
+      // Chunks arrive resampled and little-endian, ready to send
+      // (queued by the connection while it resumes or reconnects)
+      workletNode.port.onmessage = (event: MessageEvent<PcmCaptureMessage>) => {
+        const connection = connectionRef.current;
+        if (!connection?.isActive) return;
+
+        if (!(event.data instanceof ArrayBuffer)) {
+          // Flushed: the push-to-talk turn's audio is all sent
+          if (isEndingTurnRef.current) {
+            isEndingTurnRef.current = false;
+            connection.sendActivityEnd();
+          }
           return;
-
-        const pcmData = new Int16Array(event.data);
-        if (pcmData.length === 0) return;
-
-        const buffer = new ArrayBuffer(pcmData.length * 2);
-        const view = new DataView(buffer);
-
-        // Explicitly write Little-Endian bytes
-        for (let i = 0; i < pcmData.length; i++) {
-          view.setInt16(i * 2, pcmData[i], true); // true = Little-Endian
         }
 
-        const base64Audio = arrayBufferToBase64(buffer);
-
-        const msg = {
-          realtime_input: {
-            media_chunks: [
-              {
-                mime_type: "audio/pcm",
-                data: base64Audio,
-              },
-            ],
-          },
-        };
+        // In push-to-talk mode audio only goes out while the key is held
+        if (
+          sessionModeRef.current === "pushToTalk" &&
+          !isTalkingRef.current &&
+          !isEndingTurnRef.current
+        )
+          return;
 
-        wsRef.current.send(JSON.stringify(msg));
+        connection.sendAudio(event.data, PCM_RATE);
       };
 
       // Now connect the chain
@@ -1066,33 +880,103 @@ Voice: Maintain a professional, creative, and witty persona.
     }
   };
 
+  // --- Camera / Screen Share ---
+  const stopVideoInput = () => {
+    frameSamplerRef.current?.stop();
+    frameSamplerRef.current = null;
+    videoStreamRef.current?.getTracks().forEach((t) => t.stop());
+    videoStreamRef.current = null;
+    setVideoSource(null);
+  };
+
+  // Samples the camera or a shared screen into JPEG frames for Gemini. One
+  // source at a time; starting the other one replaces it.
+  const startVideoInput = async (kind: VideoSourceKind) => {
+    stopVideoInput();
+    const label = kind === "camera" ? "Camera" : "Screen Share";
+
+    let stream: MediaStream;
+    try {
+      stream = await openVideoStream(kind);
+    } catch (e: any) {
+      // NotAllowedError: declined, or the picker was cancelled
+      if (e?.name !== "NotAllowedError") console.error(`${label} Error:`, e);
+      return;
+    }
+    videoStreamRef.current = stream;
+    // The browser's own "Stop sharing" button ends the track
+    stream.getVideoTracks()[0]?.addEventListener("ended", () => {
+      if (videoStreamRef.current === stream) stopVideoInput();
+    });
+
+    const sampler = new VideoFrameSampler(
+      stream,
+      (frame) => connectionRef.current?.sendVideo(frame),
+      { frameRate },
+    );
+    frameSamplerRef.current = sampler;
+    try {
+      await sampler.start();
+      setVideoSource(kind);
+    } catch (e) {
+      console.error(`${label} Error:`, e);
+      stopVideoInput();
+    }
+  };
+
+  const toggleVideoInput = (kind: VideoSourceKind) => {
+    if (videoSource === kind) stopVideoInput();
+    else startVideoInput(kind);
+  };
+
+  const handleFrameRateChange = (rate: number) => {
+    setFrameRate(rate);
+    saveFrameRate(rate);
+    frameSamplerRef.current?.setFrameRate(rate);
+  };
+
+  useEffect(() => {
+    if (videoPreviewRef.current) {
+      videoPreviewRef.current.srcObject = videoSource
+        ? videoStreamRef.current
+        : null;
+    }
+  }, [videoSource]);
+
   useEffect(() => {
     if (hasInteracted) {
+      // A new meeting starts a new session log
+      recorderRef.current = new SessionRecorder({
+        personaId: persona.id,
+        personaName: persona.name,
+      });
       initialize();
     }
     return () => {
-      console.log("Cleaning up Simli & Gemini...");
+      console.log("Cleaning up the avatar & Gemini...");
       isInitializing.current = false; // Allow re-initialization
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
+      if (connectionRef.current) {
+        connectionRef.current.stop();
+        connectionRef.current.removeAllListeners();
+        connectionRef.current = null;
       }
-      if (simliClientRef.current) {
-        simliClientRef.current.stop();
-        simliClientRef.current = null;
+      recorderRef.current?.end();
+      setConnectionStatus(null);
+      if (avatarRef.current) {
+        avatarRef.current.removeAllListeners();
+        avatarRef.current.stop();
+        avatarRef.current = null;
       }
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((t) => t.stop());
         streamRef.current = null;
       }
+      stopVideoInput();
       if (audioContextRef.current) {
         audioContextRef.current.close();
         audioContextRef.current = null;
       }
-      if (playbackContextRef.current) {
-        playbackContextRef.current.close();
-        playbackContextRef.current = null;
-      }
+      setAvatarFallbackReason(null);
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
         animationFrameRef.current = null;
@@ -1100,6 +984,15 @@ Voice: Maintain a professional, creative, and witty persona.
     };
   }, [hasInteracted]);
 
+  // Covers are Blobs behind object URLs; release them with the component
+  useEffect(() => () => coverStudio.dispose(), []);
+
+  // Keep the meeting across page reloads
+  useEffect(() => {
+    if (!hasInteracted) return;
+    saveMeeting({ personaId: persona.id, resumeHandle, chatHistory });
+  }, [hasInteracted, chatHistory, resumeHandle]);
+
   // Handle Output Volume
   useEffect(() => {
     if (audioRef.current) {
@@ -1108,6 +1001,37 @@ Voice: Maintain a professional, creative, and witty persona.
     }
   }, [volume, isAudioMuted]);
 
+  // Push to Talk: hold Space (outside of text fields)
+  useEffect(() => {
+    if (!hasInteracted || !isPushToTalk) return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement &&
+      (target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", stopTalking);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", stopTalking);
+      stopTalking();
+    };
+  }, [hasInteracted, isPushToTalk]);
+
   // Handle Input Mute
   useEffect(() => {
     if (streamRef.current) {
@@ -1198,27 +1122,123 @@ Voice: Maintain a professional, creative, and witty persona.
           {!hasInteracted ? (
             <div className="absolute inset-0 flex items-center justify-center bg-black/80 z-20 text-white flex-col gap-4">
               <h2 className="text-xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
-                Creative Producer is waiting!
+                {persona.ui.waitingTitle}
               </h2>
+              {/* Persona Picker */}
+              {PERSONAS.length > 1 && (
+                <div className="flex flex-wrap justify-center gap-2 px-4">
+                  {PERSONAS.map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => {
+                        setPersonaId(p.id);
+                        localStorage.setItem(PERSONA_STORAGE_KEY, p.id);
+                      }}
+                      className={`px-3 py-1 rounded-full text-xs border transition ${
+                        p.id === persona.id
+                          ? "bg-purple-600 border-purple-400 text-white"
+                          : "bg-gray-800/80 border-gray-700 text-gray-300 hover:bg-gray-700"
+                      }`}
+                      title={`${p.name}, ${p.role}`}
+                    >
+                      {p.name} · {p.role}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {savedMeeting && (
+                <button
+                  onClick={resumeMeeting}
+                  className="px-6 py-2 bg-purple-600 rounded hover:bg-purple-700 transition font-semibold"
+                  title={
+                    savedMeeting.resumeHandle
+                      ? "Continue the conversation from before the reload"
+                      : "The session expired; restores the transcript and starts a new session"
+                  }
+                >
+                  Resume meeting
+                </button>
+              )}
+              <button
+                onClick={startMeeting}
+                className={`px-6 py-2 rounded transition font-semibold ${
+                  savedMeeting
+                    ? "bg-gray-700 hover:bg-gray-600"
+                    : "bg-blue-600 hover:bg-blue-700"
+                }`}
+              >
+                {persona.ui.startLabel}
+              </button>
               <button
-                onClick={() => setHasInteracted(true)}
-                className="px-6 py-2 bg-blue-600 rounded hover:bg-blue-700 transition font-semibold"
+                onClick={() => importInputRef.current?.click()}
+                className="text-xs text-gray-400 hover:text-white underline underline-offset-2 transition-colors"
               >
-                Start Interaction
+                Replay a saved session
               </button>
             </div>
           ) : null}
 
-          {/* Video Element for Simli */}
+          {/* Video Element for the avatar */}
           <video
             ref={videoRef}
             autoPlay
             playsInline
             className={`w-full h-full object-cover transition-opacity duration-1000 ${
-              isSimliReady ? "opacity-100" : "opacity-0"
+              isAvatarReady ? "opacity-100" : "opacity-0"
             }`}
           />
 
+          {avatarFallbackReason !== null && (
+            <div
+              className="absolute bottom-20 left-4 right-4 z-30 text-center text-xs text-gray-300 bg-black/50 rounded p-2 backdrop-blur-sm pointer-events-none"
+              title={avatarFallbackReason}
+            >
+              Avatar unavailable, using the local avatar
+            </div>
+          )}
+
+          {/* Camera / Screen Share Preview */}
+          {videoSource && (
+            <div className="absolute top-10 right-4 z-30 w-36 flex flex-col gap-1 bg-black/60 rounded-lg p-1.5 border border-gray-700 backdrop-blur-sm">
+              <video
+                ref={videoPreviewRef}
+                autoPlay
+                muted
+                playsInline
+                className={`w-full aspect-video object-cover rounded bg-black ${
+                  videoSource === "camera" ? "-scale-x-100" : ""
+                }`}
+              />
+              <div className="flex items-center justify-between gap-1 text-[10px] text-gray-300">
+                <span className="flex items-center gap-1">
+                  <span className="inline-flex h-1.5 w-1.5 rounded-full bg-red-500 animate-pulse"></span>
+                  {videoSource === "camera" ? "Camera" : "Screen"}
+                </span>
+                <select
+                  value={frameRate}
+                  onChange={(e) =>
+                    handleFrameRateChange(Number(e.target.value))
+                  }
+                  className="bg-gray-800 rounded px-1 outline-none"
+                  title="Frames sent to Gemini per second"
+                >
+                  {FRAME_RATES.map((rate) => (
+                    <option key={rate} value={rate}>
+                      {rate} fps
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={stopVideoInput}
+                  className="px-1 hover:text-white"
+                  title="Stop Sharing"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Active Indicator Dot */}
           {isSpeaking && (
             <div className="absolute top-4 right-4 flex h-3 w-3 z-40">
@@ -1229,15 +1249,15 @@ Voice: Maintain a professional, creative, and witty persona.
 
           <audio ref={audioRef} autoPlay muted className="hidden" />
 
-          {/* Status / Error Overlay */}
-          {(error || (!isSimliReady && hasInteracted && !error)) && (
-            <div className="absolute top-2 left-2 right-2 bg-black/50 text-white text-xs p-2 rounded z-30 pointer-events-none text-center backdrop-blur-sm">
-              {error ? (
-                <span className="text-red-400">{error}</span>
-              ) : (
-                "Connecting to Simli & Gemini..."
-              )}
-            </div>
+          {/* Connection Status / Error */}
+          {(error || hasInteracted) && (
+            <ConnectionStatusBadge
+              avatarReady={isAvatarReady}
+              avatarFallback={avatarFallbackReason !== null}
+              status={connectionStatus}
+              error={error}
+              onRetry={() => connectionRef.current?.retry()}
+            />
           )}
 
           {/* Bottom Controls Overlay */}
@@ -1290,12 +1310,70 @@ Voice: Maintain a professional, creative, and witty persona.
                   </svg>
                 )}
               </button>
+              {/* Camera Toggle */}
+              <button
+                onClick={() => toggleVideoInput("camera")}
+                disabled={!hasInteracted}
+                className={`p-3 rounded-full transition-all shadow-lg text-white ${
+                  videoSource === "camera"
+                    ? "bg-blue-600 hover:bg-blue-700"
+                    : "bg-gray-800/80 hover:bg-gray-700 backdrop-blur-sm"
+                } ${!hasInteracted ? "opacity-50 cursor-not-allowed" : ""}`}
+                title={
+                  videoSource === "camera" ? "Turn Camera Off" : "Show Camera"
+                }
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <polygon points="23 7 16 12 23 17 23 7"></polygon>
+                  <rect x="1" y="5" width="15" height="14" rx="2" ry="2"></rect>
+                </svg>
+              </button>
+              {/* Screen Share Toggle */}
+              <button
+                onClick={() => toggleVideoInput("screen")}
+                disabled={!hasInteracted}
+                className={`p-3 rounded-full transition-all shadow-lg text-white ${
+                  videoSource === "screen"
+                    ? "bg-blue-600 hover:bg-blue-700"
+                    : "bg-gray-800/80 hover:bg-gray-700 backdrop-blur-sm"
+                } ${!hasInteracted ? "opacity-50 cursor-not-allowed" : ""}`}
+                title={
+                  videoSource === "screen" ? "Stop Sharing" : "Share Screen"
+                }
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <rect x="2" y="3" width="20" height="14" rx="2" ry="2"></rect>
+                  <line x1="8" y1="21" x2="16" y2="21"></line>
+                  <line x1="12" y1="17" x2="12" y2="21"></line>
+                </svg>
+              </button>
               {/* End Conversation Button */}
               {hasInteracted && (
                 <button
                   onClick={() => {
                     setHasInteracted(false);
-                    setIsSimliReady(false);
+                    setIsAvatarReady(false);
+                    clearMeeting();
                   }}
                   className="p-3 rounded-full bg-red-600 hover:bg-red-700 text-white transition-all shadow-lg"
                   title="End Conversation"
@@ -1320,6 +1398,106 @@ Voice: Maintain a professional, creative, and witty persona.
 
             {/* Middle: Controls */}
             <div className="flex items-center gap-4">
+              {/* Voice Settings */}
+              <button
+                onClick={() => setShowVoiceSettings(true)}
+                className={`p-3 rounded-full transition-all shadow-lg ${
+                  isPushToTalk
+                    ? "bg-purple-600 hover:bg-purple-700 text-white"
+                    : "bg-gray-800/80 hover:bg-gray-700 text-white backdrop-blur-sm"
+                }`}
+                title="Voice Settings"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <line x1="4" y1="21" x2="4" y2="14"></line>
+                  <line x1="4" y1="10" x2="4" y2="3"></line>
+                  <line x1="12" y1="21" x2="12" y2="12"></line>
+                  <line x1="12" y1="8" x2="12" y2="3"></line>
+                  <line x1="20" y1="21" x2="20" y2="16"></line>
+                  <line x1="20" y1="12" x2="20" y2="3"></line>
+                  <line x1="1" y1="14" x2="7" y2="14"></line>
+                  <line x1="9" y1="8" x2="15" y2="8"></line>
+                  <line x1="17" y1="16" x2="23" y2="16"></line>
+                </svg>
+              </button>
+
+              {/* Concept Library */}
+              <button
+                onClick={() => setShowLibrary(true)}
+                className="p-3 rounded-full transition-all shadow-lg bg-gray-800/80 hover:bg-gray-700 text-white backdrop-blur-sm"
+                title="Concept Library"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"></path>
+                  <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"></path>
+                </svg>
+              </button>
+
+              {/* Session Export */}
+              <button
+                onClick={handleExportSession}
+                disabled={chatHistory.length === 0}
+                className={`p-3 rounded-full transition-all shadow-lg bg-gray-800/80 hover:bg-gray-700 text-white backdrop-blur-sm ${chatHistory.length === 0 ? "opacity-50 cursor-not-allowed" : ""}`}
+                title="Export Session"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                  <polyline points="7 10 12 15 17 10"></polyline>
+                  <line x1="12" y1="15" x2="12" y2="3"></line>
+                </svg>
+              </button>
+
+              {/* Session Import / Replay */}
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="p-3 rounded-full transition-all shadow-lg bg-gray-800/80 hover:bg-gray-700 text-white backdrop-blur-sm"
+                title="Open Session Replay"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="20"
+                  height="20"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <polygon points="5 3 19 12 5 21 5 3"></polygon>
+                </svg>
+              </button>
+
               {/* Thinking Toggle */}
               <button
                 onClick={() => setShowThinking(!showThinking)}
@@ -1427,6 +1605,29 @@ Voice: Maintain a professional, creative, and witty persona.
           </div>
         </div>
 
+        {/* Push to Talk */}
+        {hasInteracted && isPushToTalk && (
+          <button
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              startTalking();
+            }}
+            onPointerUp={stopTalking}
+            onPointerCancel={stopTalking}
+            onContextMenu={(e) => e.preventDefault()}
+            disabled={!isAvatarReady}
+            className={`w-full max-w-[512px] flex-shrink-0 py-3 rounded-lg font-semibold select-none touch-none transition-colors ${
+              isTalking
+                ? "bg-red-600 text-white"
+                : "bg-gray-800 text-gray-200 hover:bg-gray-700"
+            } ${!isAvatarReady ? "opacity-50 cursor-not-allowed" : ""}`}
+          >
+            {isTalking
+              ? "Listening... release to send"
+              : "Hold to Talk (Space)"}
+          </button>
+        )}
+
         {/* Audio Visualizer */}
         <canvas
           ref={canvasRef}
@@ -1448,64 +1649,132 @@ Voice: Maintain a professional, creative, and witty persona.
                   Conversation will appear here...
                 </p>
               )}
-              {chatHistory.map((msg, idx) => (
-                <div
-                  key={idx}
-                  className={`flex flex-col gap-1 ${msg.role === "user" ? "items-end" : "items-start"}`}
-                >
+              {chatHistory.map((msg, idx) =>
+                msg.role === "status" ? (
                   <div
-                    className={`px-4 py-3 rounded-2xl max-w-[90%] text-sm whitespace-pre-wrap relative group/msg ${
-                      msg.role === "user"
-                        ? "bg-blue-600 text-white rounded-br-none"
-                        : "bg-gray-700 text-gray-100 rounded-bl-none pr-10"
-                    }`}
+                    key={idx}
+                    className="flex items-center gap-2 text-[10px] text-gray-500"
                   >
-                    {msg.content}
-                    {msg.isImageLoading && (
-                      <div className="mt-4 w-64 h-64 bg-gray-800 animate-pulse rounded-lg flex items-center justify-center border border-gray-600">
-                        <span className="text-gray-400 text-xs">
-                          Generating Cover Art...
+                    <div className="flex-1 border-t border-gray-800" />
+                    <span>
+                      {msg.event === "interrupted" ? "✋ " : ""}
+                      {msg.content}
+                    </span>
+                    <div className="flex-1 border-t border-gray-800" />
+                  </div>
+                ) : (
+                  <div
+                    key={idx}
+                    className={`flex flex-col gap-1 ${msg.role === "user" ? "items-end" : "items-start"}`}
+                  >
+                    <div
+                      className={`px-4 py-3 rounded-2xl max-w-[90%] text-sm whitespace-pre-wrap relative group/msg ${
+                        msg.role === "user"
+                          ? "bg-blue-600 text-white rounded-br-none"
+                          : "bg-gray-700 text-gray-100 rounded-bl-none pr-10"
+                      }`}
+                    >
+                      {msg.attachments?.length > 0 && (
+                        <div className={msg.content ? "mb-2" : ""}>
+                          <AttachmentList attachments={msg.attachments} />
+                        </div>
+                      )}
+                      {msg.tool && toolRegistry.get(msg.tool.name)?.render
+                        ? toolRegistry.get(msg.tool.name)!.render!({
+                            args: msg.tool.args,
+                            status: msg.tool.status,
+                            result: msg.tool.result,
+                            error: msg.tool.error,
+                          })
+                        : msg.content}
+                      {msg.turn === "interrupted" && (
+                        <span className="block mt-1 text-[10px] italic text-gray-400">
+                          Cut off
                         </span>
-                      </div>
-                    )}
-                    {msg.image && (
-                      <div className="mt-4">
-                        <img
-                          src={msg.image}
-                          alt="Generated Album Art"
-                          className="w-64 h-64 object-cover rounded-lg shadow-md border border-gray-600"
+                      )}
+                      {msg.concept && (
+                        <CoverArtPanel
+                          studio={coverStudio}
+                          concept={msg.concept}
                         />
-                      </div>
-                    )}
-                    {msg.role === "assistant" && (
-                      <button
-                        onClick={() => handleDownload(msg.content, idx)}
-                        className="absolute top-2 right-2 text-gray-400 hover:text-white opacity-0 group-hover/msg:opacity-100 transition-opacity p-1 bg-gray-700/50 rounded-full backdrop-blur-sm"
-                        title="Download this message"
-                      >
-                        <svg
-                          xmlns="http://www.w3.org/2000/svg"
-                          width="16"
-                          height="16"
-                          viewBox="0 0 24 24"
-                          fill="none"
-                          stroke="currentColor"
-                          strokeWidth="2"
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
+                      )}
+                      {msg.role === "assistant" && (
+                        <button
+                          onClick={() => handleDownload(msg.content, idx)}
+                          className="absolute top-2 right-2 text-gray-400 hover:text-white opacity-0 group-hover/msg:opacity-100 transition-opacity p-1 bg-gray-700/50 rounded-full backdrop-blur-sm"
+                          title="Download this message"
                         >
-                          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
-                          <polyline points="7 10 12 15 17 10"></polyline>
-                          <line x1="12" y1="15" x2="12" y2="3"></line>
-                        </svg>
-                      </button>
-                    )}
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            width="16"
+                            height="16"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+                            <polyline points="7 10 12 15 17 10"></polyline>
+                            <line x1="12" y1="15" x2="12" y2="3"></line>
+                          </svg>
+                        </button>
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
+                ),
+              )}
             </div>
+            {/* Attachments waiting to be sent */}
+            {attachments.length > 0 && (
+              <div className="pt-1.5">
+                <AttachmentList
+                  attachments={attachments}
+                  onRemove={(i) =>
+                    setAttachments((prev) => prev.filter((_, j) => j !== i))
+                  }
+                />
+              </div>
+            )}
+            {attachmentError && (
+              <p className="text-xs text-red-400">{attachmentError}</p>
+            )}
             {/* Text Input Area */}
             <div className="flex gap-2">
+              <button
+                onClick={() => attachInputRef.current?.click()}
+                type="button"
+                disabled={attachments.length >= MAX_ATTACHMENTS}
+                className={`px-2 bg-gray-800 rounded border border-gray-700 text-gray-300 hover:text-white hover:bg-gray-700 transition-colors ${attachments.length >= MAX_ATTACHMENTS ? "opacity-50 cursor-not-allowed" : ""}`}
+                title="Attach images or audio clips"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  width="18"
+                  height="18"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                >
+                  <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path>
+                </svg>
+              </button>
+              <input
+                ref={attachInputRef}
+                type="file"
+                accept={ACCEPTED_TYPES}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  e.target.value = ""; // Allow picking the same file again
+                  if (files.length > 0) handleAttachFiles(files);
+                }}
+              />
               <input
                 type="text"
                 value={inputText}
@@ -1521,8 +1790,8 @@ Voice: Maintain a professional, creative, and witty persona.
               <button
                 onClick={handleSendText}
                 type="button"
-                disabled={!inputText.trim()}
-                className={`px-4 py-2 bg-blue-600 rounded text-sm font-bold hover:bg-blue-700 transition-colors ${!inputText.trim() ? "opacity-50 cursor-not-allowed" : ""}`}
+                disabled={!canSend}
+                className={`px-4 py-2 bg-blue-600 rounded text-sm font-bold hover:bg-blue-700 transition-colors ${!canSend ? "opacity-50 cursor-not-allowed" : ""}`}
               >
                 Send
               </button>
@@ -1530,6 +1799,42 @@ Voice: Maintain a professional, creative, and witty persona.
           </div>
         )}
       </div>
+
+      {showLibrary && (
+        <ConceptLibrary
+          coverStudio={coverStudio}
+          similaritySettings={similaritySettings}
+          onSaveSimilaritySettings={handleSaveSimilaritySettings}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+      {showVoiceSettings && (
+        <VoiceSettingsPanel
+          settings={voiceSettings}
+          isConnected={isAvatarReady}
+          onSave={handleSaveVoiceSettings}
+          onClose={() => setShowVoiceSettings(false)}
+        />
+      )}
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ""; // Allow re-importing the same file
+          if (file) handleImportSession(file);
+        }}
+      />
+      {replayLog && (
+        <SessionReplay
+          log={replayLog}
+          onClose={() => setReplayLog(null)}
+          getTool={(name) => toolRegistry.get(name)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,241 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  MIC_FRAME_RANGE,
+  PREFIX_PADDING_RANGE,
+  SILENCE_DURATION_RANGE,
+  type VoiceSettings,
+} from "../lib/voiceSettings";
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  /** Whether a session is running (changes then reconnect it). */
+  isConnected: boolean;
+  onSave: (settings: VoiceSettings) => void;
+  onClose: () => void;
+}
+
+/**
+ * Talk mode and voice activity detection tuning.
+ */
+const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({
+  settings,
+  isConnected,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(settings);
+  const isAuto = draft.mode === "auto";
+
+  const selectClass =
+    "w-full bg-gray-800 text-white rounded p-2 text-sm border border-gray-700 outline-none focus:border-blue-500 transition-colors disabled:opacity-50";
+  const labelClass = "flex flex-col gap-1 text-xs text-gray-300";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-lg shadow-xl w-full max-w-md flex flex-col">
+        {/* Header */}
+        <div className="flex items-center gap-3 p-4 border-b border-gray-800">
+          <h2 className="text-lg font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
+            Voice Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="ml-auto p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+            title="Close Settings"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="18"
+              height="18"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-4 p-4">
+          {/* Talk Mode */}
+          <div className="flex gap-2">
+            {(
+              [
+                ["auto", "Automatic (VAD)"],
+                ["pushToTalk", "Push to Talk"],
+              ] as const
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setDraft({ ...draft, mode })}
+                className={`flex-1 px-3 py-2 rounded text-sm border transition ${
+                  draft.mode === mode
+                    ? "bg-purple-600 border-purple-400 text-white"
+                    : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500 -mt-2">
+            {isAuto
+              ? "Gemini detects when you start and stop talking."
+              : "Hold the talk button (or Space) while you speak. Nothing is sent while it is released."}
+          </p>
+
+          {/* VAD Tuning */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className={labelClass}>
+              Start of speech
+              <select
+                value={draft.startSensitivity}
+                disabled={!isAuto}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    startSensitivity: e.target
+                      .value as VoiceSettings["startSensitivity"],
+                  })
+                }
+                className={selectClass}
+              >
+                <option value="START_SENSITIVITY_LOW">Low sensitivity</option>
+                <option value="START_SENSITIVITY_HIGH">High sensitivity</option>
+              </select>
+            </label>
+            <label className={labelClass}>
+              End of speech
+              <select
+                value={draft.endSensitivity}
+                disabled={!isAuto}
+                onChange={(e) =>
+                  setDraft({
+                    ...draft,
+                    endSensitivity: e.target
+                      .value as VoiceSettings["endSensitivity"],
+                  })
+                }
+                className={selectClass}
+              >
+                <option value="END_SENSITIVITY_LOW">Low sensitivity</option>
+                <option value="END_SENSITIVITY_HIGH">High sensitivity</option>
+              </select>
+            </label>
+          </div>
+
+          <label className={`${labelClass} ${!isAuto ? "opacity-50" : ""}`}>
+            <span className="flex justify-between">
+              Prefix padding
+              <span className="text-gray-500">{draft.prefixPaddingMs} ms</span>
+            </span>
+            <input
+              type="range"
+              {...PREFIX_PADDING_RANGE}
+              value={draft.prefixPaddingMs}
+              disabled={!isAuto}
+              onChange={(e) =>
+                setDraft({ ...draft, prefixPaddingMs: Number(e.target.value) })
+              }
+              className="accent-blue-500"
+            />
+          </label>
+
+          <label className={`${labelClass} ${!isAuto ? "opacity-50" : ""}`}>
+            <span className="flex justify-between">
+              Silence before end of turn
+              <span className="text-gray-500">
+                {draft.silenceDurationMs} ms
+              </span>
+            </span>
+            <input
+              type="range"
+              {...SILENCE_DURATION_RANGE}
+              value={draft.silenceDurationMs}
+              disabled={!isAuto}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  silenceDurationMs: Number(e.target.value),
+                })
+              }
+              className="accent-blue-500"
+            />
+          </label>
+
+          {/* Barge-in */}
+          <label className={labelClass}>
+            When you talk over the producer
+            <select
+              value={draft.activityHandling}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  activityHandling: e.target
+                    .value as VoiceSettings["activityHandling"],
+                })
+              }
+              className={selectClass}
+            >
+              <option value="START_OF_ACTIVITY_INTERRUPTS">
+                Interrupt the producer (barge-in)
+              </option>
+              <option value="NO_INTERRUPTION">Let the producer finish</option>
+            </select>
+          </label>
+
+          {/* Mic Chunking */}
+          <label className={labelClass}>
+            <span className="flex justify-between">
+              Mic chunk length
+              <span className="text-gray-500">{draft.micFrameMs} ms</span>
+            </span>
+            <input
+              type="range"
+              {...MIC_FRAME_RANGE}
+              value={draft.micFrameMs}
+              onChange={(e) =>
+                setDraft({ ...draft, micFrameMs: Number(e.target.value) })
+              }
+              className="accent-blue-500"
+            />
+          </label>
+
+          {isConnected && (
+            <p className="text-[10px] text-yellow-300/80">
+              Saving reconnects the current session to apply the changes.
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end p-4 border-t border-gray-800">
+          <button
+            onClick={() => setDraft(DEFAULT_VOICE_SETTINGS)}
+            className="mr-auto px-4 py-2 text-gray-400 rounded text-sm hover:text-white transition-colors"
+          >
+            Reset to defaults
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 rounded text-sm hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-blue-600 rounded text-sm font-bold hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
@@ -0,0 +1,34 @@
+/**
+ * Minimal typed event emitter. `Events` maps event names to their payload type.
+ */
+export class TypedEmitter<Events extends Record<string, unknown>> {
+  private listeners: {
+    [K in keyof Events]?: Set<(payload: Events[K]) => void>;
+  } = {};
+
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void) {
+    (this.listeners[event] ??= new Set()).add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners() {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (err) {
+        console.error(`Listener for "${String(event)}" failed:`, err);
+      }
+    });
+  }
+}
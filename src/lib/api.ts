@@ -0,0 +1,205 @@
+import { dataUriToBlob } from "./dataUri";
+import type { SimilaritySettings } from "./similaritySettings";
+
+// Calls to our backend (server/index.cjs). Paths are relative so the Vite proxy
+// and any deployment behind the same origin work unchanged.
+
+export interface Concept {
+  title: string;
+  genre: string;
+  description: string;
+  tracklist: string;
+  instrumental: boolean;
+  art_prompt: string;
+  atmosphere?: string;
+  instrumentation?: string;
+  vocals?: string;
+}
+
+/** An existing concept close to the one being checked. */
+export interface SimilarNeighbor {
+  title: string;
+  genre?: string;
+  /** 0 (unrelated) to 1 (the same). */
+  score: number;
+}
+
+export interface SimilarityResult {
+  status: "REJECT" | "REVIEW" | "ACCEPT" | "ERROR" | string;
+  reason: string;
+  /** Similarity to the closest existing concept. */
+  score: number;
+  /** Thresholds the status was decided with. */
+  thresholds?: Pick<SimilaritySettings, "acceptBelow" | "rejectAt">;
+  /** Closest existing concepts, closest first. */
+  neighbors?: SimilarNeighbor[];
+}
+
+export interface RecentConcept {
+  title: string;
+  description: string;
+}
+
+const postJson = (path: string, body: unknown) =>
+  fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+/**
+ * Asks the backend for short-lived credentials. API keys stay on the server.
+ */
+export const fetchToken = async <T>(kind: "gemini" | "simli", body = {}) => {
+  const response = await postJson(`/api/tokens/${kind}`, body);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(
+      data?.error || `Failed to get ${kind} token: ${response.statusText}`,
+    );
+  }
+
+  return (await response.json()) as T;
+};
+
+/**
+ * Calls the backend to generate an embedding for the potential new album
+ * and checks for similarities against existing albums.
+ * Scores at or above `settings.rejectAt` are a "Repetitive theme" (REJECT),
+ * below `settings.acceptBelow` a "Unique creative gap" (ACCEPT); the backend
+ * defaults apply without settings.
+ * Never throws: failures come back as status "ERROR" so the producer can proceed.
+ */
+export const similaritiesCheck = async (
+  title: string,
+  genre: string,
+  description: string,
+  tracklist: string,
+  settings?: SimilaritySettings,
+): Promise<SimilarityResult> => {
+  try {
+    console.log(`Checking similarities for concept: ${title}`);
+
+    const response = await postJson("/api/albums/similarities-check", {
+      title,
+      genre,
+      description,
+      tracklist,
+      ...(settings && {
+        thresholds: {
+          acceptBelow: settings.acceptBelow,
+          rejectAt: settings.rejectAt,
+        },
+        topK: settings.topK,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+
+    console.log(`Similarity check result for "${title}":`, data);
+
+    return data;
+  } catch (err) {
+    console.error("Failed to check similarities:", err);
+    return { status: "ERROR", reason: "Service unavailable", score: 0 };
+  }
+};
+
+/**
+ * Persists a finalized concept through the backend so it becomes part of
+ * the repertoire that get_recent_concepts and similarities_check see.
+ */
+export const saveConcept = async (concept: Concept) => {
+  try {
+    const response = await postJson("/api/user-concepts", concept);
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.statusText}`);
+    }
+
+    console.log(`Concept "${concept.title}" saved.`);
+  } catch (err) {
+    console.error("Failed to save concept:", err);
+  }
+};
+
+// | GET | `/api/user-concepts/recent` | Get Recent Concepts | Public | Query: `username`, `limit` |
+export const getRecentConcepts = async (
+  limit = 10,
+): Promise<RecentConcept[]> => {
+  try {
+    const response = await fetch(`/api/user-concepts/recent?limit=${limit}`);
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.statusText}`);
+    }
+
+    const data: unknown = await response.json();
+
+    // Map API response to expected format
+    const concepts: RecentConcept[] = Array.isArray(data)
+      ? data.map((c: Partial<RecentConcept>) => ({
+          title: c.title || "Untitled",
+          description: c.description || "No description",
+        }))
+      : [];
+
+    console.log(`Fetched ${concepts.length} recent concepts from API`);
+
+    return concepts;
+  } catch (error) {
+    console.error("Failed to fetch recent concepts:", error);
+    return [];
+  }
+};
+
+export interface CoverImageOptions {
+  /** "width:height", e.g. "1:1" or "2:3". Defaults to 1:1 on the backend. */
+  aspectRatio?: string;
+  /** Existing cover to edit; `prompt` is then the edit instruction. */
+  image?: { mimeType: string; data: string };
+}
+
+/** A backend call that failed with an HTTP status (0 when it never arrived). */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * Image generation runs on the backend, which holds the Gemini API key.
+ * Resolves with the image as a Blob.
+ */
+export const generateCoverImage = async (
+  prompt: string,
+  options: CoverImageOptions = {},
+) => {
+  let response: Response;
+  try {
+    response = await postJson("/api/images/generate", { prompt, ...options });
+  } catch (err) {
+    throw new ApiError(err?.message || "Network error", 0);
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.image) {
+    throw new ApiError(
+      data?.error || "No image generated by Gemini.",
+      response.ok ? 502 : response.status,
+    );
+  }
+
+  return dataUriToBlob(data.image);
+};
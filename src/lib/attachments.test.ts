@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  AttachmentError,
+  MAX_FILE_BYTES,
+  attachmentKind,
+  toPreview,
+  toUserParts,
+  type Attachment,
+} from "./attachments";
+
+const cover: Attachment = {
+  kind: "image",
+  name: "cover.png",
+  mimeType: "image/jpeg",
+  data: "aW1hZ2U=",
+  thumbnail: "data:image/jpeg;base64,dGh1bWI=",
+};
+
+const loop: Attachment = {
+  kind: "audio",
+  name: "loop.wav",
+  mimeType: "audio/wav",
+  data: "YXVkaW8=",
+  duration: 8,
+};
+
+describe("attachmentKind", () => {
+  it.each([
+    ["image/png", "image"],
+    ["image/webp", "image"],
+    ["audio/mpeg", "audio"],
+    ["audio/wav", "audio"],
+  ])("accepts %s as %s", (type, kind) => {
+    expect(attachmentKind({ name: "file", type, size: 1000 })).toBe(kind);
+  });
+
+  it("rejects other types", () => {
+    expect(() =>
+      attachmentKind({ name: "notes.pdf", type: "application/pdf", size: 10 }),
+    ).toThrow(
+      new AttachmentError('"notes.pdf" is not an image or audio file.'),
+    );
+  });
+
+  it("rejects files over the size limit", () => {
+    expect(() =>
+      attachmentKind({
+        name: "huge.wav",
+        type: "audio/wav",
+        size: MAX_FILE_BYTES + 1,
+      }),
+    ).toThrow(/larger than 8 MB/);
+  });
+});
+
+describe("toUserParts", () => {
+  it("sends attachments as inline data before the text", () => {
+    expect(toUserParts("In the spirit of these", [cover, loop])).toEqual([
+      { inlineData: { mimeType: "image/jpeg", data: "aW1hZ2U=" } },
+      { inlineData: { mimeType: "audio/wav", data: "YXVkaW8=" } },
+      { text: "In the spirit of these" },
+    ]);
+  });
+
+  it("leaves out an empty text part", () => {
+    expect(toUserParts("", [loop])).toEqual([
+      { inlineData: { mimeType: "audio/wav", data: "YXVkaW8=" } },
+    ]);
+  });
+});
+
+describe("toPreview", () => {
+  it("drops the payload", () => {
+    expect(toPreview(cover)).toEqual({
+      kind: "image",
+      name: "cover.png",
+      mimeType: "image/jpeg",
+      thumbnail: "data:image/jpeg;base64,dGh1bWI=",
+      duration: undefined,
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { arrayBufferToBase64 } from "./audio/pcm";
+import type { LivePart } from "./gemini/types";
+
+// Reference images and audio clips sent with a typed message as inline data
+// parts, e.g. "make something in the spirit of this cover".
+
+export type AttachmentKind = "image" | "audio";
+
+/** What the chat and the session log keep: no payload, only a thumbnail. */
+export interface AttachmentPreview {
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  /** Small JPEG data URI, for images. */
+  thumbnail?: string;
+  /** Seconds, for audio. */
+  duration?: number;
+}
+
+export interface Attachment extends AttachmentPreview {
+  /** Base64 payload sent to Gemini. */
+  data: string;
+}
+
+export const MAX_ATTACHMENTS = 4;
+export const MAX_AUDIO_SECONDS = 30;
+export const MAX_FILE_BYTES = 8 * 1024 * 1024;
+// Images are re-encoded as JPEG with this longest side
+const IMAGE_MAX_SIZE = 1024;
+const THUMBNAIL_SIZE = 128;
+
+export const ACCEPTED_TYPES = "image/*,audio/*";
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+/** Checks type and size before anything is decoded. */
+export const attachmentKind = (file: Pick<File, "name" | "type" | "size">) => {
+  const kind = file.type.startsWith("image/")
+    ? "image"
+    : file.type.startsWith("audio/")
+      ? "audio"
+      : null;
+  if (!kind) {
+    throw new AttachmentError(`"${file.name}" is not an image or audio file.`);
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    throw new AttachmentError(
+      `"${file.name}" is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`,
+    );
+  }
+  return kind;
+};
+
+const drawScaled = (image: ImageBitmap, maxSize: number, quality: number) => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const ctx = canvas.getContext("2d");
+  // JPEG has no alpha; transparent areas become white instead of black
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL("image/jpeg", quality);
+};
+
+const readImage = async (file: File): Promise<Attachment> => {
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file);
+  } catch {
+    throw new AttachmentError(`"${file.name}" could not be read as an image.`);
+  }
+  try {
+    const dataUrl = drawScaled(image, IMAGE_MAX_SIZE, 0.85);
+    return {
+      kind: "image",
+      name: file.name,
+      mimeType: "image/jpeg",
+      data: dataUrl.slice(dataUrl.indexOf(",") + 1),
+      thumbnail: drawScaled(image, THUMBNAIL_SIZE, 0.7),
+    };
+  } finally {
+    image.close();
+  }
+};
+
+const audioDuration = (file: File) =>
+  new Promise<number>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(audio.duration);
+    };
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new AttachmentError(`"${file.name}" could not be read as audio.`));
+    };
+    audio.src = url;
+  });
+
+const readAudio = async (file: File): Promise<Attachment> => {
+  const duration = await audioDuration(file);
+  // Infinity for some streamed formats; the size limit still applies
+  if (Number.isFinite(duration) && duration > MAX_AUDIO_SECONDS) {
+    throw new AttachmentError(
+      `"${file.name}" is ${Math.round(duration)} s long. Clips can be up to ${MAX_AUDIO_SECONDS} s.`,
+    );
+  }
+  return {
+    kind: "audio",
+    name: file.name,
+    mimeType: file.type,
+    data: arrayBufferToBase64(await file.arrayBuffer()),
+    duration: Number.isFinite(duration) ? duration : undefined,
+  };
+};
+
+/** Reads and validates a picked file. Throws AttachmentError when it can't be sent. */
+export const readAttachment = async (file: File) =>
+  attachmentKind(file) === "image" ? readImage(file) : readAudio(file);
+
+/** Attachments first, then the text, as the parts of one user turn. */
+export const toUserParts = (
+  text: string,
+  attachments: Attachment[],
+): LivePart[] => [
+  ...attachments.map(({ mimeType, data }) => ({
+    inlineData: { mimeType, data },
+  })),
+  ...(text ? [{ text }] : []),
+];
+
+export const toPreview = ({
+  kind,
+  name,
+  mimeType,
+  thumbnail,
+  duration,
+}: Attachment): AttachmentPreview => ({
+  kind,
+  name,
+  mimeType,
+  thumbnail,
+  duration,
+});
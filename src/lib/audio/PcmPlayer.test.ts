@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import { PcmPlayer } from "./PcmPlayer";
+
+// Just enough of BaseAudioContext for scheduling: buffers record their data,
+// sources record when they were started and stopped.
+class FakeSource {
+  buffer: { duration: number; data: Float32Array } | null = null;
+  startedAt: number | null = null;
+  stopped = false;
+  onended: (() => void) | null = null;
+  connect = vi.fn();
+  start(when: number) {
+    this.startedAt = when;
+  }
+  stop() {
+    this.stopped = true;
+  }
+  end() {
+    this.onended?.();
+  }
+}
+
+class FakeContext {
+  currentTime = 0;
+  destination = {};
+  sources: FakeSource[] = [];
+  createBuffer(_channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length);
+    return { duration: length / sampleRate, getChannelData: () => data, data };
+  }
+  createBufferSource() {
+    const source = new FakeSource();
+    this.sources.push(source);
+    return source;
+  }
+}
+
+const setup = (leadTime = 0.05) => {
+  const context = new FakeContext();
+  const player = new PcmPlayer(context as unknown as BaseAudioContext, {
+    leadTime,
+  });
+  return { context, player };
+};
+
+// 100 ms at 24 kHz
+const chunk = () => new Int16Array(2400).fill(0x4000);
+
+describe("PcmPlayer", () => {
+  it("schedules chunks back to back after the lead time", () => {
+    const { context, player } = setup();
+    context.currentTime = 1;
+
+    player.play(chunk(), 24000);
+    context.currentTime = 1.08;
+    player.play(chunk(), 24000);
+    player.play(chunk(), 24000);
+
+    expect(context.sources.map((s) => s.startedAt)).toEqual([
+      1.05,
+      expect.closeTo(1.15, 9),
+      expect.closeTo(1.25, 9),
+    ]);
+    expect(player.queuedDuration).toBeCloseTo(0.27, 9);
+  });
+
+  it("keeps the chunk's sample rate and converts samples to floats", () => {
+    const { context, player } = setup();
+    player.play(new Int16Array([0x4000, -0x8000]), 16000);
+
+    expect(context.sources[0].buffer.duration).toBe(2 / 16000);
+    expect(context.sources[0].buffer.data).toEqual(new Float32Array([0.5, -1]));
+  });
+
+  it("restarts with the lead time after an underrun", () => {
+    const { context, player } = setup();
+    player.play(chunk(), 24000);
+    context.currentTime = 2;
+    player.play(chunk(), 24000);
+
+    expect(context.sources[1].startedAt).toBe(2.05);
+  });
+
+  it("reports speaking until the last scheduled chunk ends", () => {
+    const { context, player } = setup();
+    const events: string[] = [];
+    player.on("speaking", () => events.push("speaking"));
+    player.on("silent", () => events.push("silent"));
+
+    player.play(chunk(), 24000);
+    player.play(chunk(), 24000);
+    context.sources[0].end();
+    expect(events).toEqual(["speaking"]);
+
+    context.sources[1].end();
+    expect(events).toEqual(["speaking", "silent"]);
+    expect(player.isSpeaking).toBe(false);
+  });
+
+  it("flush() stops queued audio and starts over", () => {
+    const { context, player } = setup();
+    const silent = vi.fn();
+    player.on("silent", silent);
+
+    player.play(chunk(), 24000);
+    player.play(chunk(), 24000);
+    player.flush();
+
+    expect(context.sources.every((s) => s.stopped)).toBe(true);
+    expect(silent).toHaveBeenCalledTimes(1);
+    expect(player.queuedDuration).toBe(0);
+
+    context.currentTime = 0.5;
+    player.play(chunk(), 24000);
+    expect(context.sources[2].startedAt).toBe(0.55);
+  });
+
+  it("ignores empty chunks", () => {
+    const { context, player } = setup();
+    player.play(new Int16Array(0), 24000);
+    expect(context.sources).toHaveLength(0);
+    expect(player.isSpeaking).toBe(false);
+  });
+});
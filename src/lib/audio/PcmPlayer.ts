@@ -0,0 +1,97 @@
+// Gapless playback of streamed 16-bit PCM chunks through Web Audio.
+// Each chunk becomes an AudioBufferSourceNode started exactly where the
+// previous one ends, so network jitter never shows up as clicks between
+// chunks as long as audio arrives faster than it plays.
+
+import { TypedEmitter } from "../TypedEmitter";
+import { int16ToFloat32 } from "./resampler";
+
+type PcmPlayerEvents = {
+  speaking: void;
+  silent: void;
+};
+
+export interface PcmPlayerOptions {
+  /** Where the audio goes. Defaults to the context's speakers. */
+  destination?: AudioNode;
+  /**
+   * Head start for the first chunk after silence (or an underrun), in
+   * seconds, so the next chunk has time to arrive before this one ends.
+   */
+  leadTime?: number;
+}
+
+/**
+ * Schedules PCM chunks back to back on an AudioContext. The buffers keep the
+ * chunk's own sample rate (e.g. Gemini's 24 kHz) and Web Audio resamples them
+ * to the context rate. `flush()` drops everything queued, for barge-in.
+ */
+export class PcmPlayer extends TypedEmitter<PcmPlayerEvents> {
+  private readonly destination: AudioNode;
+  private readonly leadTime: number;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private speaking = false;
+
+  constructor(
+    private readonly context: BaseAudioContext,
+    {
+      destination = context.destination,
+      leadTime = 0.05,
+    }: PcmPlayerOptions = {},
+  ) {
+    super();
+    this.destination = destination;
+    this.leadTime = leadTime;
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  /** Seconds of audio scheduled but not yet played. */
+  get queuedDuration() {
+    return Math.max(0, this.nextStartTime - this.context.currentTime);
+  }
+
+  play(pcm: Int16Array, sampleRate: number) {
+    if (pcm.length === 0) return;
+
+    const buffer = this.context.createBuffer(1, pcm.length, sampleRate);
+    buffer.getChannelData(0).set(int16ToFloat32(pcm));
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.destination);
+
+    // Nothing queued (start, or an underrun): start after the lead time
+    const now = this.context.currentTime;
+    if (this.nextStartTime < now) this.nextStartTime = now + this.leadTime;
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+
+    this.sources.add(source);
+    source.onended = () => {
+      this.sources.delete(source);
+      if (this.sources.size === 0) this.setSpeaking(false);
+    };
+    this.setSpeaking(true);
+  }
+
+  /** Stops playback and drops all queued audio. */
+  flush() {
+    for (const source of this.sources) {
+      source.onended = null;
+      source.stop();
+    }
+    this.sources.clear();
+    this.nextStartTime = 0;
+    this.setSpeaking(false);
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (speaking === this.speaking) return;
+    this.speaking = speaking;
+    this.emit(speaking ? "speaking" : "silent", undefined);
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  arrayBufferToBase64,
+  base64ToInt16,
+  base64ToUint8Array,
+  parsePcmRate,
+} from "./pcm";
+
+const bytes = (length: number) =>
+  Uint8Array.from({ length }, (_, i) => (i * 37 + 11) & 0xff);
+
+describe("base64ToUint8Array", () => {
+  it("decodes base64 into bytes", () => {
+    expect(base64ToUint8Array("AAH/gA==")).toEqual(
+      new Uint8Array([0x00, 0x01, 0xff, 0x80]),
+    );
+  });
+
+  it("decodes an empty string", () => {
+    expect(base64ToUint8Array("")).toEqual(new Uint8Array(0));
+  });
+});
+
+describe("arrayBufferToBase64", () => {
+  it("matches Node's encoder for every byte value", () => {
+    const all = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(arrayBufferToBase64(all.buffer)).toBe(
+      Buffer.from(all).toString("base64"),
+    );
+  });
+
+  it("encodes buffers larger than one conversion chunk", () => {
+    const data = bytes(0x8000 * 3 + 5);
+    expect(arrayBufferToBase64(data.buffer)).toBe(
+      Buffer.from(data).toString("base64"),
+    );
+  });
+
+  it("encodes only the viewed bytes of a typed array", () => {
+    const data = bytes(64);
+    const view = new Int16Array(data.buffer, 10, 8);
+    expect(arrayBufferToBase64(view)).toBe(
+      Buffer.from(data.subarray(10, 26)).toString("base64"),
+    );
+  });
+
+  it("round-trips through base64ToUint8Array", () => {
+    const data = bytes(1001);
+    expect(base64ToUint8Array(arrayBufferToBase64(data))).toEqual(data);
+  });
+});
+
+describe("base64ToInt16", () => {
+  it("reads little-endian 16-bit samples", () => {
+    const samples = new Int16Array([0, 1, -1, 32767, -32768, 1234]);
+    expect(base64ToInt16(arrayBufferToBase64(samples))).toEqual(samples);
+  });
+
+  it("ignores a trailing odd byte", () => {
+    expect(base64ToInt16(Buffer.from([1, 0, 2]).toString("base64"))).toEqual(
+      new Int16Array([1]),
+    );
+  });
+});
+
+describe("parsePcmRate", () => {
+  it("reads the rate from the mime type", () => {
+    expect(parsePcmRate("audio/pcm;rate=24000", 16000)).toBe(24000);
+  });
+
+  it("falls back when there is no rate", () => {
+    expect(parsePcmRate("audio/pcm", 16000)).toBe(16000);
+  });
+});
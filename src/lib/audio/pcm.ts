@@ -0,0 +1,44 @@
+// Helpers for moving 16-bit little-endian PCM through JSON (base64) payloads.
+
+export const base64ToUint8Array = (base64: string) => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Bytes per String.fromCharCode call, well below engine argument limits
+const CHUNK_SIZE = 0x8000;
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer | ArrayBufferView) => {
+  const bytes = ArrayBuffer.isView(buffer)
+    ? new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+    : new Uint8Array(buffer);
+
+  // Convert in chunks instead of one concatenation per byte
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    parts.push(String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE)));
+  }
+
+  return btoa(parts.join(""));
+};
+
+/**
+ * Decodes base64 16-bit PCM into samples.
+ */
+export const base64ToInt16 = (base64: string) => {
+  const bytes = base64ToUint8Array(base64);
+  return new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+};
+
+/**
+ * Reads the sample rate from a mime type like "audio/pcm;rate=24000".
+ */
+export const parsePcmRate = (mimeType: string, fallback: number) => {
+  const match = /rate=(\d+)/.exec(mimeType);
+  return match ? Number(match[1]) : fallback;
+};
@@ -0,0 +1,30 @@
+// Main-thread side of pcmCapture.worklet.ts. The worklet is bundled
+// separately (with the resampler) and loaded by URL.
+import workletUrl from "./pcmCapture.worklet.ts?worker&url";
+import type {
+  PcmCaptureCommand,
+  PcmCaptureMessage,
+  PcmCaptureOptions,
+} from "./pcmCapture.worklet";
+
+export type { PcmCaptureMessage, PcmCaptureOptions };
+
+/**
+ * Creates the capture node. Its port receives one ArrayBuffer of
+ * little-endian 16-bit PCM at `targetRate` per `frameMs` of audio.
+ */
+export const createPcmCaptureNode = async (
+  context: AudioContext,
+  options: PcmCaptureOptions,
+) => {
+  await context.audioWorklet.addModule(workletUrl);
+  return new AudioWorkletNode(context, "pcm-capture", {
+    channelCount: 1,
+    processorOptions: options,
+  });
+};
+
+export const sendPcmCaptureCommand = (
+  node: AudioWorkletNode,
+  command: PcmCaptureCommand,
+) => node.port.postMessage(command);
@@ -0,0 +1,106 @@
+// AudioWorklet that turns mic input into ready-to-send 16-bit PCM chunks.
+// Runs off the main thread: resamples when the AudioContext does not run at
+// the target rate, batches render quanta (128 samples) into frames of
+// `frameMs` and transfers each frame to the main thread as little-endian bytes.
+// A "flush" command sends the partial frame right away (end of a push-to-talk turn).
+import { StreamingResampler } from "./resampler";
+
+// AudioWorkletGlobalScope is not part of the TypeScript DOM lib
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (
+    options?: AudioWorkletNodeOptions,
+  ) => AudioWorkletProcessor,
+): void;
+
+export interface PcmCaptureOptions {
+  /** Rate of the chunks sent to the main thread. */
+  targetRate: number;
+  /** Chunk length in milliseconds. */
+  frameMs: number;
+}
+
+export type PcmCaptureCommand =
+  { type: "configure"; frameMs: number } | { type: "flush" };
+
+/** Audio chunks, plus a marker after each "flush" command. */
+export type PcmCaptureMessage = ArrayBuffer | { type: "flushed" };
+
+const MIN_FRAME_MS = 20;
+const MAX_FRAME_MS = 250;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private resampler: StreamingResampler;
+  private targetRate: number;
+  private frame: DataView;
+  private filled = 0; // Samples written to the current frame
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetRate = 16000, frameMs = 100 } =
+      (options?.processorOptions as Partial<PcmCaptureOptions>) ?? {};
+
+    this.targetRate = targetRate;
+    this.resampler = new StreamingResampler({
+      inputRate: sampleRate,
+      outputRate: targetRate,
+    });
+    this.frame = this.createFrame(frameMs);
+
+    this.port.onmessage = (event: MessageEvent<PcmCaptureCommand>) => {
+      if (event.data.type === "configure") {
+        this.flush();
+        this.frame = this.createFrame(event.data.frameMs);
+      } else if (event.data.type === "flush") {
+        this.flush();
+        // Tells the main thread everything captured so far has been posted
+        this.port.postMessage({ type: "flushed" });
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!channel || channel.length === 0) return true;
+
+    const samples = this.resampler.process(channel);
+    const capacity = this.frame.byteLength >> 1;
+
+    for (let i = 0; i < samples.length; i++) {
+      // Clip and scale to 16-bit. 32767 is the standard for 16-bit PCM
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      this.frame.setInt16(
+        this.filled * 2,
+        s < 0 ? s * 0x8000 : s * 0x7fff,
+        true,
+      );
+      this.filled++;
+
+      if (this.filled === capacity) this.flush();
+    }
+    return true;
+  }
+
+  private createFrame(frameMs: number) {
+    const ms = Math.min(MAX_FRAME_MS, Math.max(MIN_FRAME_MS, frameMs));
+    const samples = Math.round((this.targetRate * ms) / 1000);
+    return new DataView(new ArrayBuffer(samples * 2));
+  }
+
+  // Sends what is in the current frame (whole or partial) and starts a new one
+  private flush() {
+    if (this.filled === 0) return;
+
+    const buffer = this.frame.buffer.slice(0, this.filled * 2) as ArrayBuffer;
+    this.port.postMessage(buffer, [buffer]);
+    this.filled = 0;
+  }
+}
+
+// Name used by createPcmCaptureNode in pcmCapture.ts
+registerProcessor("pcm-capture", PcmCaptureProcessor);
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  StreamingResampler,
+  float32ToInt16,
+  int16ToFloat32,
+} from "./resampler";
+
+const sine = (frequency: number, rate: number, seconds: number) =>
+  Float32Array.from(
+    { length: Math.round(rate * seconds) },
+    (_, i) => 0.5 * Math.sin((2 * Math.PI * frequency * i) / rate),
+  );
+
+/**
+ * Fits a sine of `frequency` to the middle of `signal` (skipping the filter's
+ * start-up and tail) and returns its amplitude and the RMS of what is left.
+ */
+const fitSine = (signal: Float32Array, frequency: number, rate: number) => {
+  const from = Math.floor(signal.length * 0.2);
+  const to = Math.floor(signal.length * 0.8);
+  const w = (2 * Math.PI * frequency) / rate;
+
+  let a = 0;
+  let b = 0;
+  for (let i = from; i < to; i++) {
+    a += signal[i] * Math.sin(w * i);
+    b += signal[i] * Math.cos(w * i);
+  }
+  a = (2 * a) / (to - from);
+  b = (2 * b) / (to - from);
+
+  let residual = 0;
+  for (let i = from; i < to; i++) {
+    const fitted = a * Math.sin(w * i) + b * Math.cos(w * i);
+    residual += (signal[i] - fitted) ** 2;
+  }
+  return {
+    amplitude: Math.hypot(a, b),
+    residualRms: Math.sqrt(residual / (to - from)),
+  };
+};
+
+const resampleAll = (
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+  chunkSizes: number[] = [input.length],
+) => {
+  const resampler = new StreamingResampler({ inputRate, outputRate });
+  const parts: Float32Array[] = [];
+  let offset = 0;
+  for (let i = 0; offset < input.length; i++) {
+    const size = chunkSizes[i % chunkSizes.length];
+    parts.push(resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  parts.push(resampler.flush());
+
+  const output = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    output.set(part, at);
+    at += part.length;
+  }
+  return output;
+};
+
+describe("StreamingResampler", () => {
+  describe.each([
+    [24000, 16000, [100, 440, 1000, 3000, 5000]],
+    [48000, 16000, [100, 440, 1000, 3000, 5000]],
+    [44100, 16000, [100, 440, 1000, 3000, 5000]],
+    [16000, 48000, [100, 440, 1000, 3000, 6000]],
+  ])("%i Hz -> %i Hz", (inputRate, outputRate, passband) => {
+    it.each(passband)("keeps a %i Hz sine intact", (frequency) => {
+      const output = resampleAll(
+        sine(frequency, inputRate, 0.5),
+        inputRate,
+        outputRate,
+      );
+      const { amplitude, residualRms } = fitSine(output, frequency, outputRate);
+
+      expect(amplitude).toBeCloseTo(0.5, 2);
+      expect(residualRms).toBeLessThan(1e-3);
+    });
+
+    it("outputs the input duration at the new rate", () => {
+      const input = sine(440, inputRate, 0.25);
+      const output = resampleAll(input, inputRate, outputRate);
+      expect(output.length).toBe(
+        Math.round((input.length * outputRate) / inputRate),
+      );
+    });
+  });
+
+  it.each([9000, 10000, 11500])(
+    "filters out %i Hz instead of aliasing it when downsampling 24 kHz to 16 kHz",
+    (frequency) => {
+      const output = resampleAll(sine(frequency, 24000, 0.5), 24000, 16000);
+      const alias = 16000 - frequency;
+      const { amplitude } = fitSine(output, alias, 16000);
+
+      // Below -60 dB relative to the input
+      expect(amplitude / 0.5).toBeLessThan(1e-3);
+    },
+  );
+
+  it("gives the same output for any chunking of the stream", () => {
+    const input = sine(1000, 24000, 0.3);
+    const whole = resampleAll(input, 24000, 16000);
+    const chunked = resampleAll(input, 24000, 16000, [1, 127, 480, 3, 2400]);
+
+    expect(chunked.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) {
+      expect(chunked[i]).toBeCloseTo(whole[i], 6);
+    }
+  });
+
+  it("passes audio through untouched at equal rates", () => {
+    const resampler = new StreamingResampler({
+      inputRate: 16000,
+      outputRate: 16000,
+    });
+    const input = sine(440, 16000, 0.01);
+
+    expect(resampler.isPassthrough).toBe(true);
+    expect(resampler.process(input)).toEqual(input);
+  });
+
+  it("starts a fresh stream after reset()", () => {
+    const input = sine(440, 24000, 0.1);
+    const resampler = new StreamingResampler({
+      inputRate: 24000,
+      outputRate: 16000,
+    });
+    const first = resampler.process(input);
+    resampler.process(sine(3000, 24000, 0.05));
+    resampler.reset();
+
+    expect(resampler.process(input)).toEqual(first);
+  });
+
+  it("rejects invalid rates", () => {
+    expect(
+      () => new StreamingResampler({ inputRate: 0, outputRate: 16000 }),
+    ).toThrow(/Invalid sample rates/);
+  });
+});
+
+describe("int16 conversion", () => {
+  it("round-trips 16-bit samples", () => {
+    const samples = new Int16Array([0, 1, -1, 1000, -1000, 32767, -32768]);
+    expect(float32ToInt16(int16ToFloat32(samples))).toEqual(samples);
+  });
+
+  it("clips out-of-range floats", () => {
+    expect(float32ToInt16(new Float32Array([2, -2]))).toEqual(
+      new Int16Array([32767, -32768]),
+    );
+  });
+});
@@ -0,0 +1,191 @@
+// Streaming windowed-sinc resampler for arbitrary sample rates.
+// State (the filter history and the fractional read position) is carried
+// across chunks, so a stream split into any chunk sizes resamples to the
+// same output as the stream in one piece.
+
+export interface ResamplerOptions {
+  inputRate: number;
+  outputRate: number;
+  /** Sinc zero crossings on each side of the kernel. Higher is sharper and slower. */
+  zeroCrossings?: number;
+  /** Cutoff as a fraction of the lower Nyquist frequency. */
+  rolloff?: number;
+}
+
+// Kernel table resolution: kernel values per input sample, interpolated linearly
+const PHASES = 128;
+
+const sinc = (x: number) =>
+  x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+
+// Blackman window over [-1, 1]
+const blackman = (x: number) =>
+  0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+/**
+ * Converts a stream of mono samples from `inputRate` to `outputRate`.
+ *
+ * Output lags the input by the kernel half-width (27 input samples, about
+ * 1 ms, at 24 kHz → 16 kHz). Call `flush()` at the end of a stream to drain it and
+ * `reset()` to drop the history (e.g. after an interruption).
+ */
+export class StreamingResampler {
+  readonly inputRate: number;
+  readonly outputRate: number;
+
+  private readonly halfWidth: number; // Kernel half-length in input samples
+  private readonly table: Float32Array; // One side of the kernel, PHASES per input sample
+  private buffer: Float32Array;
+  private length = 0;
+  // Read position of the next output sample, in 1/outputRate input samples.
+  // Integer math keeps long streams free of drift.
+  private position = 0;
+
+  constructor({
+    inputRate,
+    outputRate,
+    zeroCrossings = 16,
+    rolloff = 0.92,
+  }: ResamplerOptions) {
+    if (!(inputRate > 0 && outputRate > 0)) {
+      throw new Error(
+        `Invalid sample rates: ${inputRate} -> ${outputRate}. Both must be positive.`,
+      );
+    }
+    this.inputRate = Math.round(inputRate);
+    this.outputRate = Math.round(outputRate);
+
+    // When downsampling the kernel is stretched so it also filters out
+    // everything above the output Nyquist frequency (anti-aliasing).
+    const cutoff = Math.min(1, this.outputRate / this.inputRate) * rolloff;
+    this.halfWidth = Math.ceil(zeroCrossings / cutoff);
+
+    this.table = new Float32Array(this.halfWidth * PHASES + 2);
+    for (let i = 0; i < this.table.length; i++) {
+      const x = i / PHASES;
+      this.table[i] =
+        x >= this.halfWidth
+          ? 0
+          : cutoff * sinc(cutoff * x) * blackman(x / this.halfWidth);
+    }
+
+    this.buffer = new Float32Array(4096);
+    this.reset();
+  }
+
+  get isPassthrough() {
+    return this.inputRate === this.outputRate;
+  }
+
+  /** Drops buffered samples. The next chunk starts a fresh stream. */
+  reset() {
+    // Leading silence lets the first output sample line up with the first input sample
+    this.buffer.fill(0, 0, this.halfWidth);
+    this.length = this.halfWidth;
+    this.position = this.halfWidth * this.outputRate;
+  }
+
+  /** Resamples one chunk of samples in [-1, 1]. */
+  process(input: Float32Array): Float32Array {
+    if (this.isPassthrough) return input.slice();
+
+    this.append(input);
+    return this.drain();
+  }
+
+  /** Same as `process` for 16-bit PCM. */
+  processInt16(input: Int16Array): Int16Array {
+    if (this.isPassthrough) return input.slice();
+    return float32ToInt16(this.process(int16ToFloat32(input)));
+  }
+
+  /** Returns the samples still held back by the filter and resets. */
+  flush(): Float32Array {
+    if (this.isPassthrough) return new Float32Array(0);
+
+    // Pad so every position before the end of the input can be computed
+    const end = this.length * this.outputRate;
+    this.append(new Float32Array(this.halfWidth + 1));
+    const output = this.drain(end);
+    this.reset();
+    return output;
+  }
+
+  private append(input: Float32Array) {
+    const needed = this.length + input.length;
+    if (needed > this.buffer.length) {
+      const grown = new Float32Array(Math.max(needed, this.buffer.length * 2));
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(input, this.length);
+    this.length = needed;
+  }
+
+  /** `end` (exclusive, in position units) limits the output when flushing. */
+  private drain(end = Infinity) {
+    const { buffer, table, halfWidth, inputRate, outputRate } = this;
+
+    // An output sample at position p needs input up to floor(p) + halfWidth
+    const last = this.length - halfWidth - 1;
+    const available = Math.max(
+      0,
+      Math.min(
+        Math.floor((last * outputRate - this.position) / inputRate) + 1,
+        Math.ceil((end - this.position) / inputRate),
+      ),
+    );
+    const output = new Float32Array(available);
+
+    let position = this.position;
+    for (let n = 0; n < available; n++) {
+      const index = Math.floor(position / outputRate);
+      const frac = (position - index * outputRate) / outputRate;
+
+      let sum = 0;
+      for (let k = 1 - halfWidth; k <= halfWidth; k++) {
+        // Distance from the output position to input sample index + k
+        const distance = Math.abs(k - frac) * PHASES;
+        const t = Math.floor(distance);
+        const weight = table[t] + (table[t + 1] - table[t]) * (distance - t);
+        sum += buffer[index + k] * weight;
+      }
+      output[n] = sum;
+      position += inputRate;
+    }
+    this.position = position;
+
+    // Keep only the history the next output sample still needs
+    const keepFrom = Math.max(
+      0,
+      Math.floor(this.position / outputRate) - halfWidth + 1,
+    );
+    if (keepFrom > 0) {
+      buffer.copyWithin(0, keepFrom, this.length);
+      this.length -= keepFrom;
+      this.position -= keepFrom * outputRate;
+    }
+
+    return output;
+  }
+}
+
+export const int16ToFloat32 = (input: Int16Array) => {
+  const output = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    output[i] = input[i] / 0x8000;
+  }
+  return output;
+};
+
+// Same scale as int16ToFloat32 and rounded, so 16-bit samples round-trip
+export const float32ToInt16 = (input: Float32Array) => {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    output[i] = Math.max(
+      -0x8000,
+      Math.min(0x7fff, Math.round(input[i] * 0x8000)),
+    );
+  }
+  return output;
+};
@@ -0,0 +1,32 @@
+export type AvatarRendererEvents = {
+  speaking: void;
+  silent: void;
+  /** The renderer went away on its own (e.g. the vendor disconnected). */
+  stop: void;
+};
+
+/**
+ * Turns the model's speech into a talking avatar. The component only talks
+ * to this interface, so avatar vendors can be swapped without touching the
+ * Gemini side.
+ */
+export interface AvatarRenderer {
+  /** Shown in logs and the status badge, e.g. "Simli". */
+  readonly name: string;
+  readonly isSpeaking: boolean;
+
+  /** Connects and starts rendering into the page's video/audio elements. */
+  start(): Promise<void>;
+  /** Queues 16-bit PCM at `sampleRate`. Renderers resample as they need. */
+  pushAudio(pcm: Int16Array, sampleRate: number): void;
+  /** Drops queued audio, e.g. when the user barges in. */
+  flush(): void;
+  /** Tears down the session. The renderer can't be started again. */
+  stop(): Promise<void> | void;
+
+  on<K extends keyof AvatarRendererEvents>(
+    event: K,
+    listener: (payload: AvatarRendererEvents[K]) => void,
+  ): () => void;
+  removeAllListeners(): void;
+}
@@ -0,0 +1,127 @@
+import { PcmPlayer } from "../audio/PcmPlayer";
+import { TypedEmitter } from "../TypedEmitter";
+import type { AvatarRenderer, AvatarRendererEvents } from "./AvatarRenderer";
+
+const SIZE = 512;
+const FPS = 30;
+
+/**
+ * Built-in avatar that needs no account: plays the audio through the page's
+ * audio element and draws a simple face, whose mouth follows the audio
+ * level, into the video element. Used offline (MOCK_SERVICES=simli), with
+ * VITE_AVATAR_RENDERER=local and when Simli fails to start.
+ */
+export class LocalFaceRenderer
+  extends TypedEmitter<AvatarRendererEvents>
+  implements AvatarRenderer
+{
+  readonly name = "Local avatar";
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private player: PcmPlayer | null = null;
+  private frame: number | null = null;
+
+  constructor(
+    private readonly videoElement: HTMLVideoElement,
+    private readonly audioElement: HTMLAudioElement,
+  ) {
+    super();
+  }
+
+  get isSpeaking() {
+    return this.player?.isSpeaking ?? false;
+  }
+
+  async start() {
+    const context = new AudioContext();
+    this.context = context;
+    this.analyser = context.createAnalyser();
+    this.analyser.fftSize = 512;
+    const output = context.createMediaStreamDestination();
+    this.analyser.connect(output);
+    // Through the audio element, so the volume and mute controls apply
+    this.audioElement.srcObject = output.stream;
+
+    this.player = new PcmPlayer(context, { destination: this.analyser });
+    this.player.on("speaking", () => this.emit("speaking", undefined));
+    this.player.on("silent", () => this.emit("silent", undefined));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SIZE;
+    canvas.height = SIZE;
+    this.videoElement.srcObject = canvas.captureStream(FPS);
+    this.draw(canvas);
+    await context.resume();
+    await this.videoElement.play().catch(() => {
+      // Autoplay is allowed after the start click; ignore if not
+    });
+  }
+
+  stop() {
+    this.flush();
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.player?.removeAllListeners();
+    this.player = null;
+    this.context?.close();
+    this.context = null;
+    this.videoElement.srcObject = null;
+    this.audioElement.srcObject = null;
+  }
+
+  pushAudio(pcm: Int16Array, sampleRate: number) {
+    this.player?.play(pcm, sampleRate);
+  }
+
+  flush() {
+    this.player?.flush();
+  }
+
+  private draw(canvas: HTMLCanvasElement) {
+    const ctx = canvas.getContext("2d");
+    const levels = new Uint8Array(this.analyser.fftSize);
+    let mouth = 0;
+
+    const render = (time: number) => {
+      // Mouth opening follows the output level, smoothed
+      this.analyser?.getByteTimeDomainData(levels);
+      let peak = 0;
+      for (const value of levels) peak = Math.max(peak, Math.abs(value - 128));
+      mouth += (Math.min(1, peak / 48) - mouth) * 0.35;
+
+      const background = ctx.createLinearGradient(0, 0, SIZE, SIZE);
+      background.addColorStop(0, "#1e1b4b");
+      background.addColorStop(1, "#111827");
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, SIZE, SIZE);
+
+      // Head
+      ctx.fillStyle = "#a5b4fc";
+      ctx.beginPath();
+      ctx.ellipse(256, 270, 150, 180, 0, 0, Math.PI * 2);
+      ctx.fill();
+
+      // Eyes, blinking every few seconds
+      const blink = time % 4000 < 150 ? 0.1 : 1;
+      ctx.fillStyle = "#1e1b4b";
+      for (const x of [200, 312]) {
+        ctx.beginPath();
+        ctx.ellipse(x, 220, 16, 20 * blink, 0, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      // Mouth
+      ctx.beginPath();
+      ctx.ellipse(256, 350, 50, 6 + mouth * 40, 0, 0, Math.PI * 2);
+      ctx.fill();
+
+      ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+      ctx.font = "16px sans-serif";
+      ctx.textAlign = "center";
+      ctx.fillText("Local avatar", 256, 490);
+
+      this.frame = requestAnimationFrame(render);
+    };
+    this.frame = requestAnimationFrame(render);
+  }
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { SimliRenderer } from "./SimliRenderer";
+
+const client = vi.hoisted(() => ({
+  listeners: new Map<string, () => void>(),
+  on: vi.fn(),
+  start: vi.fn(async () => {}),
+  stop: vi.fn(async () => {}),
+  sendAudioData: vi.fn(),
+  ClearBuffer: vi.fn(),
+}));
+
+vi.mock("simli-client", () => ({
+  LogLevel: { ERROR: 3 },
+  SimliClient: vi.fn(() => client),
+}));
+
+const createRenderer = () =>
+  new SimliRenderer({
+    sessionToken: "token",
+    iceServers: [],
+    videoElement: {} as HTMLVideoElement,
+    audioElement: {} as HTMLAudioElement,
+  });
+
+describe("SimliRenderer", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client.on.mockImplementation((event: string, listener: () => void) =>
+      client.listeners.set(event, listener),
+    );
+  });
+
+  it("sends Simli 16 kHz little-endian PCM", () => {
+    const renderer = createRenderer();
+    // 100 ms at 24 kHz, in two chunks
+    renderer.pushAudio(new Int16Array(1200), 24000);
+    renderer.pushAudio(new Int16Array(1200), 24000);
+
+    const bytes = client.sendAudioData.mock.calls.reduce(
+      (n, [data]: [Uint8Array]) => n + data.byteLength,
+      0,
+    );
+    // 1600 samples minus the resampler's filter delay
+    expect(bytes / 2).toBeGreaterThan(1550);
+    expect(bytes / 2).toBeLessThanOrEqual(1600);
+  });
+
+  it("passes 16 kHz audio through unchanged", () => {
+    const renderer = createRenderer();
+    const pcm = new Int16Array([1, -2, 300, -32768]);
+    renderer.pushAudio(pcm, 16000);
+
+    const [[data]] = client.sendAudioData.mock.calls;
+    expect(new Int16Array(data.buffer, data.byteOffset, 4)).toEqual(pcm);
+  });
+
+  it("mirrors Simli's speaking state and clears it on flush", () => {
+    const renderer = createRenderer();
+    const events: string[] = [];
+    renderer.on("speaking", () => events.push("speaking"));
+    renderer.on("silent", () => events.push("silent"));
+
+    client.listeners.get("speaking")();
+    expect(renderer.isSpeaking).toBe(true);
+
+    renderer.flush();
+    expect(client.ClearBuffer).toHaveBeenCalled();
+    expect(renderer.isSpeaking).toBe(false);
+    expect(events).toEqual(["speaking", "silent"]);
+  });
+
+  it("forwards Simli disconnecting as stop", () => {
+    const renderer = createRenderer();
+    const stop = vi.fn();
+    renderer.on("stop", stop);
+
+    client.listeners.get("stop")();
+    expect(stop).toHaveBeenCalled();
+  });
+});
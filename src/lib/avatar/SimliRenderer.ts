@@ -0,0 +1,91 @@
+import { LogLevel, SimliClient } from "simli-client";
+import { StreamingResampler } from "../audio/resampler";
+import { TypedEmitter } from "../TypedEmitter";
+import type { AvatarRenderer, AvatarRendererEvents } from "./AvatarRenderer";
+
+// Simli takes 16-bit little-endian PCM at 16 kHz
+const SIMLI_RATE = 16000;
+
+export interface SimliRendererOptions {
+  /** Session token minted by the backend (/api/tokens/simli). */
+  sessionToken: string;
+  iceServers: RTCIceServer[];
+  videoElement: HTMLVideoElement;
+  audioElement: HTMLAudioElement;
+}
+
+/**
+ * Simli's real-time lip-synced avatar. Resamples the model's audio to 16 kHz
+ * with one resampler per stream, so chunk boundaries stay continuous.
+ */
+export class SimliRenderer
+  extends TypedEmitter<AvatarRendererEvents>
+  implements AvatarRenderer
+{
+  readonly name = "Simli";
+  private readonly client: SimliClient;
+  private resampler: StreamingResampler | null = null;
+  private speaking = false;
+
+  constructor({
+    sessionToken,
+    iceServers,
+    videoElement,
+    audioElement,
+  }: SimliRendererOptions) {
+    super();
+    this.client = new SimliClient(
+      sessionToken,
+      videoElement,
+      audioElement,
+      iceServers,
+      LogLevel.ERROR,
+      "p2p",
+      "websockets",
+      "wss://api.simli.ai",
+      3000,
+    );
+    this.client.on("speaking", () => this.setSpeaking(true));
+    this.client.on("silent", () => this.setSpeaking(false));
+    this.client.on("stop", () => this.emit("stop", undefined));
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  start() {
+    return this.client.start();
+  }
+
+  pushAudio(pcm: Int16Array, sampleRate: number) {
+    if (this.resampler?.inputRate !== sampleRate) {
+      this.resampler = new StreamingResampler({
+        inputRate: sampleRate,
+        outputRate: SIMLI_RATE,
+      });
+    }
+    const int16 = this.resampler.processInt16(pcm);
+    this.client.sendAudioData(
+      new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength),
+    );
+  }
+
+  flush() {
+    // Flushes Simli's audio/video jitter buffer
+    this.client.ClearBuffer();
+    // The next chunk starts a new utterance
+    this.resampler?.reset();
+    this.setSpeaking(false);
+  }
+
+  stop() {
+    return this.client.stop();
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (speaking === this.speaking) return;
+    this.speaking = speaking;
+    this.emit(speaking ? "speaking" : "silent", undefined);
+  }
+}
@@ -0,0 +1,41 @@
+import { fetchToken } from "../api";
+import type { AvatarRenderer } from "./AvatarRenderer";
+import { LocalFaceRenderer } from "./LocalFaceRenderer";
+import { SimliRenderer } from "./SimliRenderer";
+
+export type { AvatarRenderer, AvatarRendererEvents } from "./AvatarRenderer";
+export { LocalFaceRenderer, SimliRenderer };
+
+export type AvatarKind = "simli" | "local";
+
+/** Renderer used when VITE_AVATAR_RENDERER is unset. */
+export const DEFAULT_AVATAR_KIND: AvatarKind =
+  import.meta.env.VITE_AVATAR_RENDERER === "local" ? "local" : "simli";
+
+export interface AvatarElements {
+  videoElement: HTMLVideoElement;
+  audioElement: HTMLAudioElement;
+}
+
+/**
+ * Creates (but doesn't start) the renderer for `kind`. Simli needs a session
+ * token for the face; a backend that mocks Simli answers `mock: true` and
+ * gets the local face instead.
+ */
+export const createAvatarRenderer = async (
+  kind: AvatarKind,
+  elements: AvatarElements,
+  { faceId }: { faceId: string },
+): Promise<AvatarRenderer> => {
+  if (kind === "simli") {
+    const { sessionToken, iceServers, mock } = await fetchToken<{
+      sessionToken: string;
+      iceServers: RTCIceServer[];
+      mock?: boolean;
+    }>("simli", { faceId });
+    if (!mock) {
+      return new SimliRenderer({ sessionToken, iceServers, ...elements });
+    }
+  }
+  return new LocalFaceRenderer(elements.videoElement, elements.audioElement);
+};
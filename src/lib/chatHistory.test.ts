@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendTranscription,
+  closeTurns,
+  endTurn,
+  type ChatMessage,
+} from "./chatHistory";
+
+type Step =
+  ["input" | "output", string] | ["turnComplete" | "interrupted" | "toolCall"];
+
+const feed = (steps: Step[], history: ChatMessage[] = []) =>
+  steps.reduce((prev, [kind, text]) => {
+    if (kind === "toolCall") return closeTurns(prev);
+    if (kind === "turnComplete" || kind === "interrupted") {
+      return endTurn(prev, kind);
+    }
+    return appendTranscription(prev, kind, text);
+  }, history);
+
+const turnComplete = {
+  role: "status",
+  content: "Turn complete",
+  event: "turnComplete",
+};
+
+describe("appendTranscription", () => {
+  it("merges output chunks into one open assistant turn", () => {
+    expect(
+      feed([
+        ["output", "Hello"],
+        ["output", " there,"],
+        ["output", " producer here."],
+      ]),
+    ).toEqual([
+      {
+        role: "assistant",
+        content: "Hello there, producer here.",
+        turn: "open",
+      },
+    ]);
+  });
+
+  it("closes the user's turn when the model answers", () => {
+    expect(
+      feed([
+        ["input", "Let's make"],
+        ["input", " a jazz album"],
+        ["output", "Sure!"],
+      ]),
+    ).toEqual([
+      { role: "user", content: "Let's make a jazz album", turn: "complete" },
+      { role: "assistant", content: "Sure!", turn: "open" },
+    ]);
+  });
+
+  it("keeps interleaved input and output in their own turns", () => {
+    expect(
+      feed([
+        ["output", "The first track"],
+        ["input", "Wait"],
+        ["output", " opens with"],
+        ["input", " a second"],
+      ]),
+    ).toEqual([
+      {
+        role: "assistant",
+        content: "The first track opens with",
+        turn: "open",
+      },
+      { role: "user", content: "Wait a second", turn: "open" },
+    ]);
+  });
+
+  it("never opens a turn with a blank chunk", () => {
+    const history: ChatMessage[] = [];
+    expect(appendTranscription(history, "output", "  ")).toBe(history);
+    expect(appendTranscription(history, "input", " ")).toBe(history);
+  });
+
+  it("keeps blank chunks inside an open turn", () => {
+    expect(
+      feed([
+        ["input", "Hi"],
+        ["input", " "],
+        ["input", "there"],
+      ]),
+    ).toEqual([{ role: "user", content: "Hi there", turn: "open" }]);
+  });
+
+  it("does not modify the previous history", () => {
+    const history: ChatMessage[] = [
+      { role: "assistant", content: "A", turn: "open" },
+    ];
+    appendTranscription(history, "output", "B");
+    expect(history).toEqual([
+      { role: "assistant", content: "A", turn: "open" },
+    ]);
+  });
+});
+
+describe("turn boundaries", () => {
+  it("starts a new turn after turnComplete, with a status marker between", () => {
+    expect(
+      feed([["output", "One"], ["turnComplete"], ["output", "Two"]]),
+    ).toEqual([
+      { role: "assistant", content: "One", turn: "complete" },
+      turnComplete,
+      { role: "assistant", content: "Two", turn: "open" },
+    ]);
+  });
+
+  it("marks an interrupted reply as cut off and leaves the user talking", () => {
+    expect(
+      feed([
+        ["output", "Let me tell you about"],
+        ["input", "Actually"],
+        ["interrupted"],
+        ["input", ", stop"],
+        ["turnComplete"],
+      ]),
+    ).toEqual([
+      {
+        role: "assistant",
+        content: "Let me tell you about",
+        turn: "interrupted",
+      },
+      { role: "user", content: "Actually, stop", turn: "open" },
+      { role: "status", content: "Interrupted", event: "interrupted" },
+    ]);
+  });
+
+  it("starts a new turn after a tool call", () => {
+    const concept: ChatMessage = {
+      id: "msg-call-1",
+      role: "assistant",
+      content: "{}",
+      tool: { name: "print_album_concept", args: {}, status: "running" },
+    };
+
+    const history = feed([["output", "Printing it now."], ["toolCall"]]);
+    expect(feed([["output", "Saved it!"]], [...history, concept])).toEqual([
+      { role: "assistant", content: "Printing it now.", turn: "complete" },
+      concept,
+      { role: "assistant", content: "Saved it!", turn: "open" },
+    ]);
+  });
+
+  it("does not add a marker to an empty history", () => {
+    expect(endTurn([], "turnComplete")).toEqual([]);
+  });
+
+  it("leaves messages without a turn alone", () => {
+    const thought: ChatMessage = { role: "assistant", content: "Thinking" };
+    expect(feed([["output", "Hi"]], [thought])).toEqual([
+      thought,
+      { role: "assistant", content: "Hi", turn: "open" },
+    ]);
+  });
+});
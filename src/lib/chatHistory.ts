@@ -0,0 +1,106 @@
+import type { AttachmentPreview } from "./attachments";
+import type { CoverConcept } from "./coverArt/presets";
+import type { ToolError } from "./tools/ToolRegistry";
+
+/**
+ * Where a transcript turn is at. Transcription chunks only extend an `open`
+ * turn; the model's `turnComplete`, `interrupted` and tool calls close it.
+ */
+export type TurnState = "open" | "complete" | "interrupted";
+
+/** Protocol events shown as status markers between turns */
+export type StatusEvent = "turnComplete" | "interrupted";
+
+export type ChatMessage = {
+  role: "user" | "assistant" | "status";
+  content: string;
+  id?: string;
+  // Printed concepts; their cover art is kept by the CoverArtStudio
+  concept?: CoverConcept;
+  // Images and audio clips sent with a typed message
+  attachments?: AttachmentPreview[];
+  // Spoken or typed turns; unset for tool, thought and status entries
+  turn?: TurnState;
+  // Set for status markers
+  event?: StatusEvent;
+  // Set for tool calls whose tool has a renderer
+  tool?: {
+    name: string;
+    args: Record<string, unknown>;
+    status: "running" | "done" | "error";
+    result?: unknown;
+    error?: ToolError;
+  };
+};
+
+type Speaker = "user" | "assistant";
+
+export const STATUS_LABELS: Record<StatusEvent, string> = {
+  turnComplete: "Turn complete",
+  interrupted: "Interrupted",
+};
+
+const isOpen = (msg: ChatMessage, role: Speaker) =>
+  msg.role === role && msg.turn === "open";
+
+/** Closes the open turn of `role`, if any, as `state`. */
+export const closeTurn = (
+  history: ChatMessage[],
+  role: Speaker,
+  state: Exclude<TurnState, "open"> = "complete",
+): ChatMessage[] =>
+  history.some((msg) => isOpen(msg, role))
+    ? history.map((msg) => (isOpen(msg, role) ? { ...msg, turn: state } : msg))
+    : history;
+
+/** Closes both open turns, e.g. at a tool call or a typed message. */
+export const closeTurns = (history: ChatMessage[]) =>
+  closeTurn(closeTurn(history, "user"), "assistant");
+
+/**
+ * Adds a transcription chunk to the open turn of its speaker, or opens a new
+ * turn. Input and output chunks can interleave (the user talking over the
+ * model), so each goes to its own speaker's turn rather than the last message.
+ * The model starting to answer closes the user's turn. Blank chunks never open
+ * a turn.
+ */
+export const appendTranscription = (
+  history: ChatMessage[],
+  source: "input" | "output",
+  text: string,
+): ChatMessage[] => {
+  const role: Speaker = source === "output" ? "assistant" : "user";
+  let index = history.length - 1;
+  while (index >= 0 && !isOpen(history[index], role)) index--;
+
+  if (index >= 0) {
+    return history.map((msg, i) =>
+      i === index ? { ...msg, content: msg.content + text } : msg,
+    );
+  }
+  if (text.trim() === "") return history;
+
+  const base = role === "assistant" ? closeTurn(history, "user") : history;
+  return [...base, { role, content: text, turn: "open" }];
+};
+
+/**
+ * Ends the model's turn; `interrupted` marks its reply as cut off. The user's
+ * turn stays open, as they may still be talking. Adds a status marker unless
+ * the history is empty or already ends with one (the `turnComplete` that
+ * follows an interruption).
+ */
+export const endTurn = (
+  history: ChatMessage[],
+  event: StatusEvent,
+): ChatMessage[] => {
+  const next = closeTurn(
+    history,
+    "assistant",
+    event === "interrupted" ? "interrupted" : "complete",
+  );
+
+  const last = history[history.length - 1];
+  if (!last || last.role === "status") return next;
+  return [...next, { role: "status", content: STATUS_LABELS[event], event }];
+};
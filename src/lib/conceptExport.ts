@@ -0,0 +1,233 @@
+import type { ConceptRecord } from "./conceptLibrary";
+import { createZip, type ZipEntry } from "./zip";
+
+// Handoff formats for finalized concepts: structured JSON, a Markdown
+// one-sheet and a per-track prompt pack for music generation tools.
+
+export const EXPORT_VERSION = 1;
+
+export interface AlbumTraits {
+  atmosphere: string;
+  instrumentation: string;
+  vocals: string;
+}
+
+export interface TrackPrompt {
+  number: number;
+  title: string;
+  /** Short comma separated "style of music" line. */
+  style: string;
+  /** Longer description combining the track and the album's sound. */
+  prompt: string;
+  instrumental: boolean;
+}
+
+export const slugify = (text: string) =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "concept";
+
+// Finds "Label: value" in free text, e.g. "Atmosphere: misty and ethereal."
+const labeled = (text: string, label: string) => {
+  const match = new RegExp(
+    `(?:^|\\n|[.;]\\s)${label}\\s*:\\s*([^\\n]+?)(?=\\s*(?:\\n|$|\\.\\s+[A-Z][a-z]+\\s*:))`,
+    "i",
+  ).exec(text);
+  return match ? match[1].trim().replace(/\.$/, "") : "";
+};
+
+/**
+ * Album-level sound. Uses the explicit fields when the model provided them,
+ * otherwise picks the labelled lines out of the description.
+ */
+export const albumTraits = (record: ConceptRecord): AlbumTraits => ({
+  atmosphere:
+    record.atmosphere || labeled(record.description, "Atmosphere") || "",
+  instrumentation:
+    record.instrumentation ||
+    labeled(record.description, "Instrumentation") ||
+    "",
+  vocals:
+    record.vocals ||
+    labeled(record.description, "Vocals") ||
+    (record.instrumental ? "Instrumental, no vocals" : ""),
+});
+
+// Drops empty and case-insensitive duplicate terms, keeping the first spelling
+const uniqueTerms = (terms: string[]) => {
+  const seen = new Set<string>();
+  return terms.filter((term) => {
+    const key = term?.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const buildTrackPrompts = (record: ConceptRecord): TrackPrompt[] => {
+  const traits = albumTraits(record);
+
+  return record.tracks.map((track) => ({
+    number: track.number,
+    title: track.title,
+    style: uniqueTerms([
+      record.genre,
+      ...track.styleTags,
+      traits.instrumentation,
+      record.instrumental ? "instrumental" : traits.vocals,
+    ]).join(", "),
+    prompt: [
+      track.description,
+      traits.atmosphere && `Atmosphere: ${traits.atmosphere}`,
+      traits.instrumentation && `Instrumentation: ${traits.instrumentation}`,
+      traits.vocals && `Vocals: ${traits.vocals}`,
+      `Part of the album "${record.title}" (${record.genre}).`,
+    ]
+      .filter(Boolean)
+      .join(". ")
+      .replace(/\.\./g, "."),
+    instrumental: record.instrumental,
+  }));
+};
+
+/**
+ * `cover` is what goes in `coverImage`: a data URI for a standalone export,
+ * or the cover's file name in a zip bundle.
+ */
+export const conceptToJson = (record: ConceptRecord, cover?: string) => ({
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  concept: {
+    id: record.id,
+    title: record.title,
+    genre: record.genre,
+    description: record.description,
+    instrumental: record.instrumental,
+    ...albumTraits(record),
+    artPrompt: record.artPrompt,
+    tracklist: record.tracklist,
+    tracks: record.tracks,
+    similarity: record.similarity ?? null,
+    coverImage: cover ?? null,
+    createdAt: new Date(record.createdAt).toISOString(),
+    updatedAt: new Date(record.updatedAt).toISOString(),
+  },
+  generationPrompts: buildTrackPrompts(record),
+});
+
+/**
+ * One-sheet for handoff. `coverPath` links a cover file next to the
+ * Markdown (used in zip bundles).
+ */
+export const conceptToMarkdown = (
+  record: ConceptRecord,
+  coverPath?: string,
+) => {
+  const traits = albumTraits(record);
+  const lines = [`# ${record.title}`, "", `**Genre:** ${record.genre}  `];
+  lines.push(
+    `**Format:** ${record.instrumental ? "Instrumental" : "Vocal"} · ${record.tracks.length} tracks  `,
+  );
+  if (record.similarity) {
+    lines.push(
+      `**Gap analysis:** ${record.similarity.status} (score ${record.similarity.score}): ${record.similarity.reason}  `,
+    );
+  }
+  if (coverPath) lines.push("", `![Cover art](${coverPath})`);
+
+  lines.push("", "## Concept", "", record.description);
+
+  const sound = [
+    traits.atmosphere && `- **Atmosphere:** ${traits.atmosphere}`,
+    traits.instrumentation &&
+      `- **Instrumentation:** ${traits.instrumentation}`,
+    traits.vocals && `- **Vocals:** ${traits.vocals}`,
+  ].filter(Boolean);
+  if (sound.length > 0) lines.push("", "## Sound", "", ...sound);
+
+  lines.push("", "## Tracklist", "");
+  if (record.tracks.length > 0) {
+    lines.push("| # | Title | Description | Style |", "| - | - | - | - |");
+    for (const track of record.tracks) {
+      const cell = (text: string) => text.replace(/\|/g, "\\|");
+      lines.push(
+        `| ${track.number} | ${cell(track.title)} | ${cell(track.description)} | ${cell(track.styleTags.join(", "))} |`,
+      );
+    }
+  } else {
+    lines.push(record.tracklist);
+  }
+
+  lines.push("", "## Cover Art Prompt", "", record.artPrompt, "");
+  return lines.join("\n");
+};
+
+/** Plain text, one block per track, ready to paste into a generator. */
+export const conceptToPromptPack = (record: ConceptRecord) => {
+  const traits = albumTraits(record);
+  const header = [
+    `# ${record.title} — Generation Prompt Pack`,
+    `Genre: ${record.genre}`,
+    traits.atmosphere && `Atmosphere: ${traits.atmosphere}`,
+    traits.instrumentation && `Instrumentation: ${traits.instrumentation}`,
+    traits.vocals && `Vocals: ${traits.vocals}`,
+  ].filter(Boolean);
+
+  const blocks = buildTrackPrompts(record).map((track) =>
+    [
+      `## Track ${track.number}: ${track.title}`,
+      `Style: ${track.style}`,
+      `Prompt: ${track.prompt}`,
+      `Instrumental: ${track.instrumental ? "yes" : "no"}`,
+    ].join("\n"),
+  );
+
+  return [header.join("\n"), ...blocks].join("\n\n") + "\n";
+};
+
+const coverExtension = (mimeType: string) =>
+  mimeType.split("/")[1]?.replace("jpeg", "jpg").replace("svg+xml", "svg") ||
+  "png";
+
+/**
+ * Zip with one folder per concept: concept.json, one-sheet.md,
+ * prompt-pack.txt and the cover image.
+ */
+export const conceptsToZip = async (records: ConceptRecord[]) => {
+  const entries: ZipEntry[] = [];
+  const used = new Set<string>();
+
+  for (const record of records) {
+    let folder = slugify(record.title);
+    for (let i = 2; used.has(folder); i++)
+      folder = `${slugify(record.title)}-${i}`;
+    used.add(folder);
+
+    const cover = record.coverImage;
+    const coverName = cover ? `cover.${coverExtension(cover.type)}` : undefined;
+
+    entries.push(
+      {
+        path: `${folder}/concept.json`,
+        data: JSON.stringify(conceptToJson(record, coverName), null, 2),
+      },
+      {
+        path: `${folder}/one-sheet.md`,
+        data: conceptToMarkdown(record, coverName),
+      },
+      { path: `${folder}/prompt-pack.txt`, data: conceptToPromptPack(record) },
+    );
+    if (cover && coverName) {
+      entries.push({
+        path: `${folder}/${coverName}`,
+        data: new Uint8Array(await cover.arrayBuffer()),
+      });
+    }
+  }
+
+  return createZip(entries);
+};
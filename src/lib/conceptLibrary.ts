@@ -0,0 +1,131 @@
+import { withStore } from "./db";
+import type { Concept, SimilarityResult } from "./api";
+import { parseTracklist, type Track } from "./tracklist";
+import { dataUriToBlob } from "./dataUri";
+import { deleteCovers } from "./coverArt/coverStore";
+
+// Local, persistent library of finalized concepts (IndexedDB "concepts" store).
+
+export interface ConceptRecord {
+  id: string;
+  title: string;
+  genre: string;
+  description: string;
+  tracklist: string;
+  /** `tracklist` parsed into structured tracks. */
+  tracks: Track[];
+  instrumental: boolean;
+  artPrompt: string;
+  atmosphere?: string;
+  instrumentation?: string;
+  vocals?: string;
+  /** The favourite cover, once generated. */
+  coverImage?: Blob;
+  /** Which variant in the covers store `coverImage` is. */
+  coverId?: string;
+  /** Last similarities_check result for this concept, if any. */
+  similarity?: Pick<SimilarityResult, "status" | "score" | "reason">;
+  personaId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ConceptPatch = Partial<Omit<ConceptRecord, "id" | "createdAt">>;
+
+const STORE = "concepts";
+
+const listeners = new Set<() => void>();
+
+/** Notifies when any concept is created, updated or deleted. */
+export const onConceptsChanged = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const conceptFromToolArgs = (
+  concept: Concept,
+  extra: Partial<ConceptRecord> = {},
+): ConceptRecord => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: concept.title,
+    genre: concept.genre,
+    description: concept.description,
+    tracklist: concept.tracklist,
+    tracks: parseTracklist(concept.tracklist).tracks,
+    instrumental: concept.instrumental,
+    artPrompt: concept.art_prompt,
+    atmosphere: concept.atmosphere,
+    instrumentation: concept.instrumentation,
+    vocals: concept.vocals,
+    createdAt: now,
+    updatedAt: now,
+    ...extra,
+  };
+};
+
+// Covers used to be stored as data URIs
+const fromStored = (record: ConceptRecord) =>
+  typeof record.coverImage === "string"
+    ? { ...record, coverImage: dataUriToBlob(record.coverImage) }
+    : record;
+
+/** All concepts, most recently updated first. */
+export const listConcepts = async () => {
+  const records = await withStore<ConceptRecord[]>(STORE, "readonly", (store) =>
+    store.getAll(),
+  );
+  return records.map(fromStored).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getConcept = async (id: string) => {
+  const record = await withStore<ConceptRecord | undefined>(
+    STORE,
+    "readonly",
+    (store) => store.get(id),
+  );
+  return record && fromStored(record);
+};
+
+export const putConcept = async (record: ConceptRecord) => {
+  await withStore(STORE, "readwrite", (store) => store.put(record));
+  notify();
+  return record;
+};
+
+export const updateConcept = async (id: string, patch: ConceptPatch) => {
+  const existing = await getConcept(id);
+  if (!existing) throw new Error(`Concept ${id} not found`);
+  const tracks =
+    patch.tracklist !== undefined && !patch.tracks
+      ? parseTracklist(patch.tracklist).tracks
+      : (patch.tracks ?? existing.tracks);
+  return putConcept({
+    ...existing,
+    ...patch,
+    tracks,
+    id,
+    updatedAt: Date.now(),
+  });
+};
+
+export const deleteConcept = async (id: string) => {
+  await withStore(STORE, "readwrite", (store) => store.delete(id));
+  await deleteCovers(id);
+  notify();
+};
+
+/** Case-insensitive match on title, genre, description and tracklist. */
+export const matchesQuery = (record: ConceptRecord, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [record.title, record.genre, record.description, record.tracklist]
+    .join("\n")
+    .toLowerCase()
+    .includes(q);
+};
@@ -0,0 +1,216 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApiError } from "../api";
+import { CoverArtStudio, withRetry } from "./CoverArtStudio";
+
+const api = vi.hoisted(() => ({ generateCoverImage: vi.fn() }));
+const store = vi.hoisted(() => ({
+  listCovers: vi.fn(async () => []),
+  putCover: vi.fn(async (cover) => cover),
+}));
+const library = vi.hoisted(() => ({
+  getConcept: vi.fn(async () => undefined),
+  updateConcept: vi.fn(async () => undefined),
+}));
+
+vi.mock("../api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../api")>()),
+  generateCoverImage: api.generateCoverImage,
+}));
+vi.mock("./coverStore", () => store);
+vi.mock("../conceptLibrary", () => library);
+
+const concept = {
+  id: "concept-1",
+  artPrompt: "A neon lighthouse 🌊",
+  description: "Synthwave by the sea.",
+};
+
+const png = (label: string) => new Blob([label], { type: "image/png" });
+
+const createStudio = () => new CoverArtStudio({ attempts: 3, baseDelayMs: 0 });
+
+describe("withRetry", () => {
+  it("retries rate limits and upstream errors", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new ApiError("Too many requests", 429))
+      .mockRejectedValueOnce(new ApiError("Unavailable", 503))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry(fn, { baseDelayMs: 0 })).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("gives up after the last attempt", async () => {
+    const fn = vi.fn().mockRejectedValue(new ApiError("Network error", 0));
+
+    await expect(
+      withRetry(fn, { attempts: 2, baseDelayMs: 0 }),
+    ).rejects.toThrow("Network error");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry bad requests", async () => {
+    const fn = vi.fn().mockRejectedValue(new ApiError("Bad aspect", 400));
+
+    await expect(withRetry(fn, { baseDelayMs: 0 })).rejects.toThrow();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("CoverArtStudio", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("generates variants with the preset and keeps the first as cover", async () => {
+    api.generateCoverImage
+      .mockResolvedValueOnce(png("a"))
+      .mockResolvedValueOnce(png("b"));
+    const studio = createStudio();
+    const variants: string[] = [];
+    studio.on("variant", (variant) => variants.push(variant.id));
+
+    await studio.generate(concept, { preset: "cassette", count: 2 });
+
+    const [prompt, options] = api.generateCoverImage.mock.calls[0];
+    expect(prompt).toMatch(/^Create album art for: A neon lighthouse \./);
+    expect(prompt).toContain("cassette tape J-card");
+    expect(options).toEqual({ aspectRatio: "2:3" });
+
+    const state = studio.get(concept.id);
+    expect(state.pending).toBe(0);
+    expect(state.variants).toHaveLength(2);
+    expect(state.variants.map((v) => v.id)).toEqual(variants);
+    expect(state.variants[0].url).toMatch(/^blob:/);
+    expect(store.putCover).toHaveBeenCalledTimes(2);
+
+    expect(state.favouriteId).toBe(state.variants[0].id);
+    expect(library.updateConcept).toHaveBeenCalledWith(concept.id, {
+      coverImage: state.variants[0].image,
+      coverId: state.variants[0].id,
+    });
+  });
+
+  it("keeps failed requests for a manual retry", async () => {
+    api.generateCoverImage.mockRejectedValue(new ApiError("Quota", 429));
+    const studio = createStudio();
+    const failed = vi.fn();
+    studio.on("failed", failed);
+
+    await studio.generate(concept);
+
+    expect(api.generateCoverImage).toHaveBeenCalledTimes(3);
+    expect(studio.get(concept.id)).toMatchObject({
+      pending: 0,
+      failed: 1,
+      error: "Quota",
+    });
+    expect(failed).toHaveBeenCalledWith({
+      conceptId: concept.id,
+      error: "Quota",
+    });
+
+    api.generateCoverImage.mockResolvedValue(png("a"));
+    await studio.retry(concept.id);
+
+    const state = studio.get(concept.id);
+    expect(state.failed).toBe(0);
+    expect(state.error).toBeUndefined();
+    expect(state.variants).toHaveLength(1);
+  });
+
+  it("sends the variant back with the instruction for an edit", async () => {
+    api.generateCoverImage
+      .mockResolvedValueOnce(png("original"))
+      .mockResolvedValueOnce(png("edited"));
+    const studio = createStudio();
+    await studio.generate(concept, { aspectRatio: "16:9" });
+    const [original] = studio.get(concept.id).variants;
+
+    await studio.edit(concept.id, original.id, "Make it night-time");
+
+    expect(api.generateCoverImage).toHaveBeenLastCalledWith(
+      "Make it night-time",
+      {
+        aspectRatio: "16:9",
+        image: { mimeType: "image/png", data: btoa("original") },
+      },
+    );
+    const [, edited] = studio.get(concept.id).variants;
+    expect(edited).toMatchObject({
+      parentId: original.id,
+      prompt: "Make it night-time",
+      aspectRatio: "16:9",
+    });
+    // Edits don't replace the cover until picked
+    expect(studio.get(concept.id).favouriteId).toBe(original.id);
+
+    await studio.pick(concept.id, edited.id);
+    expect(studio.get(concept.id).favouriteId).toBe(edited.id);
+    expect(library.updateConcept).toHaveBeenLastCalledWith(concept.id, {
+      coverImage: edited.image,
+      coverId: edited.id,
+    });
+  });
+
+  it("loads stored variants and the concept's cover", async () => {
+    store.listCovers.mockResolvedValueOnce([
+      {
+        id: "old",
+        conceptId: concept.id,
+        image: png("old"),
+        prompt: "p",
+        preset: "vinyl",
+        aspectRatio: "1:1",
+        createdAt: 1,
+      },
+    ]);
+    library.getConcept.mockResolvedValueOnce({ coverId: "old" });
+    const studio = createStudio();
+
+    await studio.load(concept.id);
+    await studio.load(concept.id);
+
+    expect(store.listCovers).toHaveBeenCalledTimes(1);
+    const state = studio.get(concept.id);
+    expect(state.variants.map((v) => v.id)).toEqual(["old"]);
+    expect(state.favouriteId).toBe("old");
+  });
+
+  it("forgets its state on dispose", async () => {
+    api.generateCoverImage.mockResolvedValue(png("a"));
+    const studio = createStudio();
+    await studio.generate(concept);
+    const revoke = vi.spyOn(URL, "revokeObjectURL");
+
+    studio.dispose();
+
+    expect(revoke).toHaveBeenCalledTimes(1);
+    expect(studio.get(concept.id).variants).toEqual([]);
+    revoke.mockRestore();
+  });
+
+  it("stores but doesn't show requests that finish after dispose", async () => {
+    let resolve: (image: Blob) => void;
+    api.generateCoverImage.mockReturnValueOnce(
+      new Promise((r) => (resolve = r)),
+    );
+    const studio = createStudio();
+    const variant = vi.fn();
+    const change = vi.fn();
+    studio.on("variant", variant);
+    const generating = studio.generate(concept);
+
+    studio.dispose();
+    studio.on("change", change);
+    resolve(png("late"));
+    await generating;
+
+    expect(store.putCover).toHaveBeenCalledTimes(1);
+    expect(variant).not.toHaveBeenCalled();
+    expect(change).not.toHaveBeenCalled();
+    expect(library.updateConcept).not.toHaveBeenCalled();
+    expect(studio.get(concept.id)).toMatchObject({ pending: 0, variants: [] });
+  });
+});
@@ -0,0 +1,284 @@
+import { TypedEmitter } from "../TypedEmitter";
+import { ApiError, generateCoverImage, type CoverImageOptions } from "../api";
+import { arrayBufferToBase64 } from "../audio/pcm";
+import { getConcept, updateConcept } from "../conceptLibrary";
+import { listCovers, putCover, type CoverVariant } from "./coverStore";
+import {
+  COVER_PRESETS,
+  DEFAULT_PRESET,
+  MAX_VARIANTS,
+  buildCoverPrompt,
+  type CoverConcept,
+  type CoverPresetId,
+} from "./presets";
+
+/** A stored variant with an object URL for <img>. */
+export type CoverImage = CoverVariant & { url: string };
+
+export interface CoverArtState {
+  /** Oldest first. */
+  variants: CoverImage[];
+  favouriteId?: string;
+  /** Generations and edits in flight. */
+  pending: number;
+  /** Requests that failed after all retries; `retry()` runs them again. */
+  failed: number;
+  error?: string;
+}
+
+export type CoverArtStudioEvents = {
+  /** Payload: the concept whose state changed. */
+  change: string;
+  variant: CoverVariant;
+  failed: { conceptId: string; error: string };
+};
+
+export interface GenerateOptions {
+  preset?: CoverPresetId;
+  /** Defaults to the preset's aspect ratio. */
+  aspectRatio?: string;
+  /** Number of variants, 1 to MAX_VARIANTS. */
+  count?: number;
+}
+
+export interface RetryOptions {
+  /** Tries per request, including the first. */
+  attempts?: number;
+  /** Delay before the first retry; doubles after each. */
+  baseDelayMs?: number;
+}
+
+const EMPTY: CoverArtState = { variants: [], pending: 0, failed: 0 };
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Bad requests fail the same way every time; rate limits, upstream errors
+// and network failures (status 0) are worth another try
+const isRetryable = (err: unknown) =>
+  !(err instanceof ApiError) ||
+  err.status === 0 ||
+  err.status === 429 ||
+  err.status >= 500;
+
+/**
+ * Runs `fn` up to `attempts` times with exponential backoff (±25% jitter)
+ * between tries. Non-retryable errors are thrown right away.
+ */
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { attempts = 3, baseDelayMs = 1000 }: RetryOptions = {},
+) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= attempts || !isRetryable(err)) throw err;
+      await sleep(
+        baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5),
+      );
+    }
+  }
+};
+
+type Job = () => Promise<Omit<CoverVariant, "id" | "conceptId" | "createdAt">>;
+
+/**
+ * Cover art for concepts: generates variants, edits them, and keeps the
+ * favourite on the concept. Variants are stored as Blobs and shown through
+ * object URLs owned by the studio; `dispose()` revokes them.
+ *
+ * State is per concept and replaced (never mutated) on every change, so it
+ * can be handed to React as is.
+ */
+export class CoverArtStudio extends TypedEmitter<CoverArtStudioEvents> {
+  private states = new Map<string, CoverArtState>();
+  private failedJobs = new Map<string, Job[]>();
+  private loading = new Map<string, Promise<void>>();
+  // Bumped by dispose(); requests started before it don't touch the new state
+  private generation = 0;
+
+  constructor(private readonly retryOptions: RetryOptions = {}) {
+    super();
+  }
+
+  get(conceptId: string) {
+    return this.states.get(conceptId) ?? EMPTY;
+  }
+
+  /** Adds variants stored in earlier sessions. Runs once per concept. */
+  load(conceptId: string) {
+    if (!this.loading.has(conceptId)) {
+      const generation = this.generation;
+      this.loading.set(
+        conceptId,
+        Promise.all([listCovers(conceptId), getConcept(conceptId)])
+          .then(([covers, record]) => {
+            if (generation !== this.generation) return;
+            const state = this.get(conceptId);
+            const known = new Set(state.variants.map((v) => v.id));
+            const loaded = covers
+              .filter((cover) => !known.has(cover.id))
+              .map((cover) => ({
+                ...cover,
+                url: URL.createObjectURL(cover.image),
+              }));
+            this.update(conceptId, {
+              variants: [...loaded, ...state.variants].sort(
+                (a, b) => a.createdAt - b.createdAt,
+              ),
+              favouriteId: state.favouriteId ?? record?.coverId,
+            });
+          })
+          .catch((err) => console.error("Failed to load covers:", err)),
+      );
+    }
+    return this.loading.get(conceptId);
+  }
+
+  /** Generates `count` variants of the concept's cover in parallel. */
+  generate(
+    concept: CoverConcept,
+    {
+      preset = DEFAULT_PRESET,
+      aspectRatio = COVER_PRESETS[preset].aspectRatio,
+      count = 1,
+    }: GenerateOptions = {},
+  ) {
+    const prompt = buildCoverPrompt(concept, preset);
+    const job: Job = async () => ({
+      image: await generateCoverImage(prompt, { aspectRatio }),
+      prompt,
+      preset,
+      aspectRatio,
+    });
+    const n = Math.max(1, Math.min(MAX_VARIANTS, Math.round(count)));
+    return this.run(
+      concept.id,
+      Array.from({ length: n }, () => job),
+    );
+  }
+
+  /** Sends a variant back with an instruction; the result is a new variant. */
+  edit(conceptId: string, variantId: string, instruction: string) {
+    const source = this.get(conceptId).variants.find((v) => v.id === variantId);
+    if (!source) return Promise.resolve();
+
+    const job: Job = async () => {
+      const image: CoverImageOptions["image"] = {
+        mimeType: source.image.type,
+        data: arrayBufferToBase64(await source.image.arrayBuffer()),
+      };
+      return {
+        image: await generateCoverImage(instruction, {
+          aspectRatio: source.aspectRatio,
+          image,
+        }),
+        prompt: instruction,
+        preset: source.preset,
+        aspectRatio: source.aspectRatio,
+        parentId: source.id,
+      };
+    };
+    return this.run(conceptId, [job]);
+  }
+
+  /** Runs the requests that failed last time again. */
+  retry(conceptId: string) {
+    const jobs = this.failedJobs.get(conceptId) ?? [];
+    this.failedJobs.delete(conceptId);
+    this.update(conceptId, { failed: 0, error: undefined });
+    return this.run(conceptId, jobs);
+  }
+
+  /** Makes a variant the concept's cover. */
+  async pick(conceptId: string, variantId: string) {
+    const variant = this.get(conceptId).variants.find(
+      (v) => v.id === variantId,
+    );
+    if (!variant) return;
+    this.update(conceptId, { favouriteId: variantId });
+    try {
+      await updateConcept(conceptId, {
+        coverImage: variant.image,
+        coverId: variant.id,
+      });
+    } catch (err) {
+      console.error("Failed to store concept cover:", err);
+    }
+  }
+
+  /**
+   * Revokes every object URL and forgets all state; `load()` brings stored
+   * variants back. Listeners stay attached. Requests still running finish
+   * in the background: their variants are stored but not added or emitted.
+   */
+  dispose() {
+    this.generation++;
+    for (const state of this.states.values()) {
+      state.variants.forEach((variant) => URL.revokeObjectURL(variant.url));
+    }
+    this.states.clear();
+    this.failedJobs.clear();
+    this.loading.clear();
+  }
+
+  private async run(conceptId: string, jobs: Job[]) {
+    if (jobs.length === 0) return;
+    const generation = this.generation;
+    this.update(conceptId, {
+      pending: this.get(conceptId).pending + jobs.length,
+    });
+
+    await Promise.all(
+      jobs.map(async (job) => {
+        try {
+          const result = await withRetry(job, this.retryOptions);
+          const variant: CoverVariant = {
+            ...result,
+            id: crypto.randomUUID(),
+            conceptId,
+            createdAt: Date.now(),
+          };
+          // Without storage the variant is still shown for this session
+          await putCover(variant).catch((err) =>
+            console.error("Failed to store cover variant:", err),
+          );
+          if (generation !== this.generation) return;
+          const state = this.get(conceptId);
+          this.update(conceptId, {
+            pending: state.pending - 1,
+            variants: [
+              ...state.variants,
+              { ...variant, url: URL.createObjectURL(variant.image) },
+            ],
+          });
+          this.emit("variant", variant);
+          // The first cover becomes the favourite until another is picked
+          if (!this.get(conceptId).favouriteId) {
+            await this.pick(conceptId, variant.id);
+          }
+        } catch (err) {
+          const error = err?.message || String(err);
+          console.error("Cover generation failed:", err);
+          if (generation !== this.generation) return;
+          this.failedJobs.set(conceptId, [
+            ...(this.failedJobs.get(conceptId) ?? []),
+            job,
+          ]);
+          const state = this.get(conceptId);
+          this.update(conceptId, {
+            pending: state.pending - 1,
+            failed: state.failed + 1,
+            error,
+          });
+          this.emit("failed", { conceptId, error });
+        }
+      }),
+    );
+  }
+
+  private update(conceptId: string, patch: Partial<CoverArtState>) {
+    this.states.set(conceptId, { ...this.get(conceptId), ...patch });
+    this.emit("change", conceptId);
+  }
+}
@@ -0,0 +1,47 @@
+import { openDb, promisifyRequest, withStore } from "../db";
+import type { CoverPresetId } from "./presets";
+
+// Every generated cover, kept as a Blob in the IndexedDB "covers" store. The
+// favourite is also copied onto the concept (`ConceptRecord.coverImage`).
+
+export interface CoverVariant {
+  id: string;
+  conceptId: string;
+  image: Blob;
+  /** Generation prompt, or the edit instruction for edits. */
+  prompt: string;
+  preset: CoverPresetId;
+  aspectRatio: string;
+  /** Set for edits: the variant that was edited. */
+  parentId?: string;
+  createdAt: number;
+}
+
+const STORE = "covers";
+
+/** Variants of one concept, oldest first. */
+export const listCovers = async (conceptId: string) => {
+  const covers = await withStore<CoverVariant[]>(STORE, "readonly", (store) =>
+    store.index("conceptId").getAll(conceptId),
+  );
+  return covers.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const getCover = (id: string) =>
+  withStore<CoverVariant | undefined>(STORE, "readonly", (store) =>
+    store.get(id),
+  );
+
+export const putCover = async (cover: CoverVariant) => {
+  await withStore(STORE, "readwrite", (store) => store.put(cover));
+  return cover;
+};
+
+export const deleteCovers = async (conceptId: string) => {
+  const db = await openDb();
+  const store = db.transaction(STORE, "readwrite").objectStore(STORE);
+  const keys = await promisifyRequest(
+    store.index("conceptId").getAllKeys(conceptId),
+  );
+  await Promise.all(keys.map((key) => promisifyRequest(store.delete(key))));
+};
@@ -0,0 +1,11 @@
+export {
+  CoverArtStudio,
+  withRetry,
+  type CoverArtState,
+  type CoverArtStudioEvents,
+  type CoverImage,
+  type GenerateOptions,
+  type RetryOptions,
+} from "./CoverArtStudio";
+export { getCover, listCovers, type CoverVariant } from "./coverStore";
+export * from "./presets";
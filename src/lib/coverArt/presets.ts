@@ -0,0 +1,64 @@
+import type { ConceptRecord } from "../conceptLibrary";
+
+// Cover formats and the prompts sent to the image model.
+
+/** Aspect ratios the backend accepts, as "width:height". */
+export const ASPECT_RATIOS = ["1:1", "4:5", "3:4", "2:3", "16:9", "9:16"];
+
+export type CoverPresetId = "vinyl" | "cassette" | "streaming";
+
+export interface CoverPreset {
+  label: string;
+  aspectRatio: string;
+  /** Appended to the concept's art prompt. */
+  style: string;
+}
+
+export const COVER_PRESETS: Record<CoverPresetId, CoverPreset> = {
+  vinyl: {
+    label: "Vinyl sleeve",
+    aspectRatio: "1:1",
+    style:
+      "12-inch vinyl LP sleeve, rich detail and texture that hold up at full size, no text",
+  },
+  cassette: {
+    label: "Cassette J-card",
+    aspectRatio: "2:3",
+    style:
+      "cassette tape J-card front panel, tall narrow composition, printed card texture, no text",
+  },
+  streaming: {
+    label: "Streaming thumbnail",
+    aspectRatio: "1:1",
+    style:
+      "streaming service cover that still reads as a tiny thumbnail: one bold focal subject, strong contrast, simple shapes, no small details or text",
+  },
+};
+
+export const DEFAULT_PRESET: CoverPresetId = "vinyl";
+
+export const MAX_VARIANTS = 4;
+
+/** What cover prompts are built from. */
+export type CoverConcept = Pick<
+  ConceptRecord,
+  "id" | "artPrompt" | "description"
+>;
+
+/**
+ * Image prompt for a concept. Emojis and the tracklist are left out and the
+ * concept part is capped at 500 characters; the preset's style goes last.
+ */
+export const buildCoverPrompt = (
+  concept: Omit<CoverConcept, "id">,
+  preset: CoverPresetId,
+) => {
+  const subject =
+    `Create album art for: ${concept.artPrompt}. ${concept.description}`
+      .replace(/[^\w\s,./:!?'"()-]/gi, "") // Emojis out, standard punctuation in
+      .replace(/\s+/g, " ")
+      .split("Tracklist")[0]
+      .substring(0, 500)
+      .trim();
+  return `${subject} Format: ${COVER_PRESETS[preset].style}.`;
+};
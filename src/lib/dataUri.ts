@@ -0,0 +1,17 @@
+import { arrayBufferToBase64, base64ToUint8Array } from "./audio/pcm";
+
+// Images travel as data URIs in JSON (backend responses, exports) and as
+// Blobs everywhere else.
+
+export const dataUriToBlob = (dataUri: string) => {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(dataUri);
+  if (!match) throw new Error("Not a data URI.");
+  const [, mimeType, base64, payload] = match;
+  return new Blob(
+    [base64 ? base64ToUint8Array(payload) : decodeURIComponent(payload)],
+    { type: mimeType },
+  );
+};
+
+export const blobToDataUri = async (blob: Blob) =>
+  `data:${blob.type};base64,${arrayBufferToBase64(await blob.arrayBuffer())}`;
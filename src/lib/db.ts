@@ -0,0 +1,51 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Bump DB_VERSION and extend `upgrade` when adding object stores.
+
+const DB_NAME = "radio-ai";
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains("concepts")) {
+    const store = db.createObjectStore("concepts", { keyPath: "id" });
+    store.createIndex("updatedAt", "updatedAt");
+  }
+  // v2: cover art variants, several per concept
+  if (!db.objectStoreNames.contains("covers")) {
+    const store = db.createObjectStore("covers", { keyPath: "id" });
+    store.createIndex("conceptId", "conceptId");
+  }
+};
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Runs `fn` against one object store and resolves with its result. */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(fn(tx.objectStore(storeName)));
+};
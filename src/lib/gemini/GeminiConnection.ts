@@ -0,0 +1,389 @@
+import { TypedEmitter } from "../TypedEmitter";
+import type {
+  GeminiLiveSession,
+  GeminiLiveSessionEvents,
+} from "./GeminiLiveSession";
+import type { LiveContent, LiveFunctionResponse } from "./types";
+
+export type ConnectionState =
+  "idle" | "connecting" | "ready" | "resuming" | "reconnecting" | "failed";
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  /** Failed attempts since the connection was last ready. */
+  attempt: number;
+  maxAttempts: number;
+  /** Epoch ms of the next reconnect attempt while waiting in "reconnecting". */
+  retryAt?: number;
+  /** Why the last attempt or connection failed. */
+  error?: string;
+}
+
+// Session events re-emitted from whichever session is active
+const FORWARDED_EVENTS = [
+  "message",
+  "audio",
+  "transcription",
+  "text",
+  "codeExecutionResult",
+  "toolCall",
+  "toolCallCancellation",
+  "interrupted",
+  "generationComplete",
+  "turnComplete",
+  "groundingMetadata",
+  "goAway",
+  "resumptionUpdate",
+] as const;
+
+type ForwardedEvents = Pick<
+  GeminiLiveSessionEvents,
+  (typeof FORWARDED_EVENTS)[number]
+>;
+
+export interface GeminiConnectionEvents
+  extends ForwardedEvents, Record<string, unknown> {
+  status: ConnectionStatus;
+  /**
+   * A session finished setup. `resumed` keeps the previous context;
+   * `initial` is the first ready session since `start()`.
+   */
+  ready: { resumed: boolean; initial: boolean };
+}
+
+export interface GeminiConnectionOptions {
+  /** Builds (but does not connect) a session, e.g. with a fresh token. */
+  createSession: (resumeHandle: string | null) => Promise<GeminiLiveSession>;
+  /** Reconnect attempts before giving up in "failed". */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Audio chunks kept while not ready. Older chunks are dropped. */
+  maxQueuedAudio?: number;
+}
+
+interface QueuedMessage {
+  kind: "audio" | "content" | "activity" | "toolResponse";
+  send: (session: GeminiLiveSession) => boolean;
+}
+
+// Policy violation; the server also uses it for unknown resumption handles
+const CLOSE_POLICY_VIOLATION = 1008;
+
+/**
+ * Keeps one logical Gemini Live conversation connected across sessions.
+ *
+ *   idle → connecting → ready ⇄ resuming
+ *                         ↓         ↓
+ *                    reconnecting (exponential backoff) → failed
+ *
+ * `goAway` and `resume()` open a new session with the latest resumption
+ * handle and switch to it on its first message. Unexpected closes retry with
+ * backoff, resuming when a handle is available. Messages sent while not
+ * ready are queued and flushed once a session is ready.
+ */
+export class GeminiConnection extends TypedEmitter<GeminiConnectionEvents> {
+  private readonly options: Required<GeminiConnectionOptions>;
+  private active: GeminiLiveSession | null = null;
+  private pending: GeminiLiveSession | null = null;
+  private handle: string | null = null;
+  private queue: QueuedMessage[] = [];
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasBeenReady = false;
+  // Bumped by stop() so in-flight session creation is discarded
+  private generation = 0;
+  private _status: ConnectionStatus;
+
+  constructor(options: GeminiConnectionOptions) {
+    super();
+    this.options = {
+      maxAttempts: 6,
+      baseDelayMs: 1000,
+      maxDelayMs: 30000,
+      maxQueuedAudio: 100,
+      ...options,
+    };
+    this._status = {
+      state: "idle",
+      attempt: 0,
+      maxAttempts: this.options.maxAttempts,
+    };
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get state() {
+    return this._status.state;
+  }
+
+  /** True while connected or trying to be; sends are sent or queued. */
+  get isActive() {
+    return this.state !== "idle" && this.state !== "failed";
+  }
+
+  /** Latest resumption handle from the server. */
+  get resumeHandle() {
+    return this.handle;
+  }
+
+  /** Connects, resuming `resumeHandle` when given. */
+  start(resumeHandle: string | null = null) {
+    if (this.isActive) return;
+
+    this.handle = resumeHandle;
+    this.hasBeenReady = false;
+    this.open("connecting", 0);
+  }
+
+  /** Tries again after "failed", resuming if there is a handle. */
+  retry() {
+    if (this.state !== "failed") return;
+    this.open("reconnecting", 0);
+  }
+
+  /**
+   * Moves to a new session with the current context, e.g. to apply a new
+   * setup. Returns false if there is no handle or a switch is in progress.
+   */
+  resume() {
+    if (this.state !== "ready" || !this.handle) return false;
+    this.open("resuming", 0);
+    return true;
+  }
+
+  stop() {
+    this.generation++;
+    this.clearRetry();
+    for (const session of [this.active, this.pending]) {
+      if (session) this.dispose(session, "Client closed");
+    }
+    this.active = null;
+    this.pending = null;
+    this.queue = [];
+    this.setStatus({ state: "idle", attempt: 0 });
+  }
+
+  sendClientContent(turns: LiveContent[], turnComplete = true) {
+    return this.sendOrQueue("content", (s) =>
+      s.sendClientContent(turns, turnComplete),
+    );
+  }
+
+  sendText(text: string, turnComplete = true) {
+    return this.sendOrQueue("content", (s) => s.sendText(text, turnComplete));
+  }
+
+  sendAudio(pcm: Int16Array | ArrayBuffer, sampleRate?: number) {
+    return this.sendOrQueue("audio", (s) => s.sendAudio(pcm, sampleRate));
+  }
+
+  /**
+   * Frames are dropped rather than queued while the connection is down: a
+   * stale frame is worth nothing once the next one is due.
+   */
+  sendVideo(data: string, mimeType?: string) {
+    if (this.state !== "ready" || !this.active?.isOpen) return false;
+    return this.active.sendVideo(data, mimeType);
+  }
+
+  sendActivityStart() {
+    return this.sendOrQueue("activity", (s) => s.sendActivityStart());
+  }
+
+  sendActivityEnd() {
+    return this.sendOrQueue("activity", (s) => s.sendActivityEnd());
+  }
+
+  sendToolResponse(functionResponses: LiveFunctionResponse[]) {
+    return this.sendOrQueue("toolResponse", (s) =>
+      s.sendToolResponse(functionResponses),
+    );
+  }
+
+  private async open(
+    state: "connecting" | "resuming" | "reconnecting",
+    attempt: number,
+  ) {
+    this.clearRetry();
+    this.setStatus({ state, attempt });
+
+    const generation = this.generation;
+    let session: GeminiLiveSession;
+    try {
+      session = await this.options.createSession(this.handle);
+    } catch (err) {
+      if (generation !== this.generation) return;
+      console.error("Failed to create Gemini session:", err);
+      this.handleFailedAttempt(
+        err instanceof Error ? err.message : String(err),
+      );
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    this.pending = session;
+    this.attach(session);
+    session.connect().catch(() => {
+      // Reported through the close event
+    });
+  }
+
+  private forward<K extends keyof ForwardedEvents>(
+    session: GeminiLiveSession,
+    event: K,
+  ) {
+    session.on(event, (payload: ForwardedEvents[K]) => {
+      // GeminiConnectionEvents extends ForwardedEvents, which TS can't see for a generic K
+      if (session === this.active) {
+        this.emit(event, payload as GeminiConnectionEvents[K]);
+      }
+    });
+  }
+
+  private attach(session: GeminiLiveSession) {
+    // Registered first: a pending session takes over on its first message,
+    // before that message is forwarded
+    session.on("message", () => {
+      if (session === this.pending) this.promote(session);
+    });
+
+    for (const event of FORWARDED_EVENTS) this.forward(session, event);
+
+    session.on("setupComplete", () => {
+      if (session !== this.active) return;
+
+      const initial = !this.hasBeenReady;
+      this.hasBeenReady = true;
+      this.setStatus({ state: "ready", attempt: 0 });
+      this.flushQueue(session, session.isResumption);
+      this.emit("ready", { resumed: session.isResumption, initial });
+    });
+
+    session.on("resumptionUpdate", (update) => {
+      if (session === this.active && update.resumable && update.newHandle) {
+        this.handle = update.newHandle;
+      }
+    });
+
+    session.on("goAway", ({ timeLeft }) => {
+      if (session !== this.active) return;
+      console.log(`Gemini going away in ${timeLeft}. Resuming...`);
+      this.resume();
+    });
+
+    session.on("error", (event) => {
+      console.error("Gemini WebSocket Error", event);
+    });
+
+    session.on("close", ({ code, reason }) => {
+      session.removeAllListeners();
+      console.log("Gemini WebSocket Closed", code, reason);
+
+      const detail = `Closed: ${code}${reason ? ` ${reason}` : ""}`;
+      if (
+        code === CLOSE_POLICY_VIOLATION ||
+        /session not found/i.test(reason)
+      ) {
+        // The handle is no longer valid; the next attempt starts fresh
+        this.handle = null;
+      }
+
+      if (session === this.pending) {
+        this.pending = null;
+        if (this.state === "resuming" && this.active?.isOpen) {
+          // Keep using the old session until it goes away
+          console.warn("Resumption failed, staying on the current session.");
+          this.setStatus({ state: "ready", attempt: 0, error: detail });
+          this.flushQueue(this.active, true);
+          return;
+        }
+        this.handleFailedAttempt(detail);
+      } else if (session === this.active) {
+        this.active = null;
+        // During a resumption the pending session takes over
+        if (this.state !== "resuming") this.handleFailedAttempt(detail);
+      }
+    });
+  }
+
+  private promote(session: GeminiLiveSession) {
+    const previous = this.active;
+    this.active = session;
+    this.pending = null;
+    if (previous) this.dispose(previous, "Resumption Complete");
+  }
+
+  private handleFailedAttempt(error: string) {
+    const attempt = this._status.attempt + 1;
+    if (attempt > this.options.maxAttempts) {
+      this.queue = [];
+      this.setStatus({ state: "failed", attempt, error });
+      return;
+    }
+
+    // Exponential backoff with ±25% jitter
+    const delay =
+      Math.min(
+        this.options.maxDelayMs,
+        this.options.baseDelayMs * 2 ** (attempt - 1),
+      ) *
+      (0.75 + Math.random() * 0.5);
+
+    this.setStatus({
+      state: "reconnecting",
+      attempt,
+      retryAt: Date.now() + delay,
+      error,
+    });
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open("reconnecting", attempt);
+    }, delay);
+  }
+
+  private sendOrQueue(
+    kind: QueuedMessage["kind"],
+    send: QueuedMessage["send"],
+  ) {
+    if (this.state === "ready" && this.active?.isOpen) {
+      return send(this.active);
+    }
+    if (!this.isActive) return false;
+
+    if (kind === "audio") {
+      const audio = this.queue.filter((m) => m.kind === "audio");
+      if (audio.length >= this.options.maxQueuedAudio) {
+        this.queue.splice(this.queue.indexOf(audio[0]), 1);
+      }
+    }
+    this.queue.push({ kind, send });
+    return true;
+  }
+
+  private flushQueue(session: GeminiLiveSession, resumed: boolean) {
+    const queued = this.queue;
+    this.queue = [];
+    for (const message of queued) {
+      // Tool calls from a lost context can't be answered in a fresh one
+      if (!resumed && message.kind === "toolResponse") continue;
+      message.send(session);
+    }
+  }
+
+  private dispose(session: GeminiLiveSession, reason: string) {
+    session.removeAllListeners();
+    session.close(1000, reason);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private setStatus(status: Omit<ConnectionStatus, "maxAttempts">) {
+    this._status = { ...status, maxAttempts: this.options.maxAttempts };
+    this.emit("status", this._status);
+  }
+}
@@ -0,0 +1,243 @@
+import { TypedEmitter } from "../TypedEmitter";
+import { arrayBufferToBase64, base64ToInt16, parsePcmRate } from "../audio/pcm";
+import {
+  parseServerMessage,
+  type LiveContent,
+  type LiveFunctionCall,
+  type LiveFunctionResponse,
+  type LiveGroundingMetadata,
+  type LiveServerFrame,
+  type LiveServerContent,
+  type LiveServerMessage,
+  type LiveSessionResumptionUpdate,
+  type LiveSetup,
+} from "./types";
+
+// Gemini Live speaks 24 kHz PCM unless the mime type says otherwise.
+const DEFAULT_OUTPUT_RATE = 24000;
+
+export interface GeminiLiveSessionEvents extends Record<string, unknown> {
+  open: void;
+  setupComplete: void;
+  /** Every parsed frame, before the specific events below. */
+  message: LiveServerMessage;
+  audio: { pcm: Int16Array; sampleRate: number };
+  transcription: { source: "input" | "output"; text: string };
+  text: { text: string; thought: boolean };
+  codeExecutionResult: { outcome: string; output: string };
+  toolCall: LiveFunctionCall[];
+  toolCallCancellation: string[];
+  interrupted: void;
+  generationComplete: void;
+  turnComplete: void;
+  groundingMetadata: LiveGroundingMetadata;
+  goAway: { timeLeft?: string };
+  resumptionUpdate: LiveSessionResumptionUpdate;
+  error: Event;
+  close: { code: number; reason: string };
+}
+
+export interface GeminiLiveSessionOptions {
+  /** Full WebSocket URL, including the access token. */
+  url: string;
+  setup: LiveSetup;
+}
+
+/**
+ * A single BidiGenerateContent WebSocket connection. Framework-agnostic:
+ * it sends the setup message, parses server frames into typed events and
+ * exposes helpers for the client messages we send.
+ *
+ * Resumption is done by opening a new session with `setup.sessionResumption`.
+ */
+export class GeminiLiveSession extends TypedEmitter<GeminiLiveSessionEvents> {
+  private ws: WebSocket | null = null;
+  private readonly options: GeminiLiveSessionOptions;
+
+  constructor(options: GeminiLiveSessionOptions) {
+    super();
+    this.options = options;
+  }
+
+  get isOpen() {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  get isResumption() {
+    return !!this.options.setup.sessionResumption?.handle;
+  }
+
+  /**
+   * Opens the socket and sends the setup message. Resolves once the socket is
+   * open; listen for `setupComplete` before sending content.
+   */
+  connect() {
+    return new Promise<void>((resolve, reject) => {
+      const ws = new WebSocket(this.options.url);
+      this.ws = ws;
+
+      ws.onopen = () => {
+        // The setup message must be the VERY FIRST message on the socket.
+        ws.send(JSON.stringify({ setup: this.options.setup }));
+        this.emit("open", undefined);
+        resolve();
+      };
+
+      ws.onmessage = (event: MessageEvent) => {
+        this.handleFrame(event.data).catch((err) =>
+          console.error("Failed to handle Gemini message:", err),
+        );
+      };
+
+      ws.onerror = (event) => {
+        this.emit("error", event);
+        reject(new Error("Gemini WebSocket error"));
+      };
+
+      ws.onclose = (event) => {
+        this.emit("close", { code: event.code, reason: event.reason });
+      };
+    });
+  }
+
+  close(code = 1000, reason = "Client closed") {
+    if (
+      this.ws &&
+      (this.ws.readyState === WebSocket.OPEN ||
+        this.ws.readyState === WebSocket.CONNECTING)
+    ) {
+      this.ws.close(code, reason);
+    }
+  }
+
+  sendClientContent(turns: LiveContent[], turnComplete = true) {
+    return this.send({ clientContent: { turns, turnComplete } });
+  }
+
+  sendText(text: string, turnComplete = true) {
+    return this.sendClientContent(
+      [{ role: "user", parts: [{ text }] }],
+      turnComplete,
+    );
+  }
+
+  /** Sends 16-bit little-endian PCM captured from the mic. */
+  sendAudio(pcm: Int16Array | ArrayBuffer, sampleRate = 16000) {
+    return this.send({
+      realtimeInput: {
+        audio: {
+          mimeType: `audio/pcm;rate=${sampleRate}`,
+          data: arrayBufferToBase64(pcm),
+        },
+      },
+    });
+  }
+
+  /** Sends one video frame (camera or screen), base64 encoded. */
+  sendVideo(data: string, mimeType = "image/jpeg") {
+    return this.send({ realtimeInput: { video: { mimeType, data } } });
+  }
+
+  /**
+   * Manual turn-taking (push-to-talk). Only valid when automatic activity
+   * detection is disabled in the setup.
+   */
+  sendActivityStart() {
+    return this.send({ realtimeInput: { activityStart: {} } });
+  }
+
+  sendActivityEnd() {
+    return this.send({ realtimeInput: { activityEnd: {} } });
+  }
+
+  sendToolResponse(functionResponses: LiveFunctionResponse[]) {
+    return this.send({ toolResponse: { functionResponses } });
+  }
+
+  /** Returns false when the socket isn't open and the message was dropped. */
+  send(message: Record<string, unknown>) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  private async handleFrame(data: string | Blob | ArrayBuffer) {
+    const raw =
+      typeof data === "string"
+        ? data
+        : data instanceof Blob
+          ? await data.text()
+          : new TextDecoder().decode(data);
+
+    const message = parseServerMessage(JSON.parse(raw) as LiveServerFrame);
+    this.emit("message", message);
+
+    switch (message.type) {
+      case "setupComplete":
+        this.emit("setupComplete", undefined);
+        break;
+      case "toolCall":
+        this.emit("toolCall", message.functionCalls);
+        break;
+      case "toolCallCancellation":
+        this.emit("toolCallCancellation", message.ids);
+        break;
+      case "goAway":
+        this.emit("goAway", { timeLeft: message.timeLeft });
+        break;
+      case "sessionResumptionUpdate":
+        this.emit("resumptionUpdate", message.update);
+        break;
+      case "serverContent":
+        this.handleServerContent(message.serverContent);
+        break;
+    }
+  }
+
+  private handleServerContent(content: LiveServerContent) {
+    if (content.interrupted) {
+      this.emit("interrupted", undefined);
+    }
+
+    for (const part of content.modelTurn?.parts ?? []) {
+      if (part.inlineData?.mimeType.startsWith("audio/pcm")) {
+        this.emit("audio", {
+          pcm: base64ToInt16(part.inlineData.data),
+          sampleRate: parsePcmRate(
+            part.inlineData.mimeType,
+            DEFAULT_OUTPUT_RATE,
+          ),
+        });
+      } else if (part.text) {
+        this.emit("text", { text: part.text, thought: !!part.thought });
+      } else if (part.codeExecutionResult) {
+        this.emit("codeExecutionResult", {
+          outcome: part.codeExecutionResult.outcome,
+          output: part.codeExecutionResult.output ?? "",
+        });
+      }
+    }
+
+    if (content.inputTranscription?.text) {
+      this.emit("transcription", {
+        source: "input",
+        text: content.inputTranscription.text,
+      });
+    }
+    if (content.outputTranscription?.text) {
+      this.emit("transcription", {
+        source: "output",
+        text: content.outputTranscription.text,
+      });
+    }
+    if (content.groundingMetadata) {
+      this.emit("groundingMetadata", content.groundingMetadata);
+    }
+    if (content.generationComplete) {
+      this.emit("generationComplete", undefined);
+    }
+    if (content.turnComplete) {
+      this.emit("turnComplete", undefined);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+// Wire types for the Gemini Live BidiGenerateContent protocol (the subset we use).
+// Field names follow the JSON the server sends (lowerCamelCase).
+
+export interface LivePart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  executableCode?: { language: string; code: string };
+  codeExecutionResult?: { outcome: string; output?: string };
+}
+
+export interface LiveContent {
+  role?: "user" | "model";
+  parts: LivePart[];
+}
+
+export interface LiveTranscription {
+  text?: string;
+  finished?: boolean;
+}
+
+export interface LiveGroundingMetadata {
+  webSearchQueries?: string[];
+  groundingChunks?: { web?: { uri?: string; title?: string } }[];
+  [key: string]: unknown;
+}
+
+export interface LiveServerContent {
+  modelTurn?: LiveContent;
+  interrupted?: boolean;
+  turnComplete?: boolean;
+  generationComplete?: boolean;
+  inputTranscription?: LiveTranscription;
+  outputTranscription?: LiveTranscription;
+  groundingMetadata?: LiveGroundingMetadata;
+}
+
+export interface LiveFunctionCall {
+  id: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+export interface LiveFunctionResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LiveSessionResumptionUpdate {
+  newHandle?: string;
+  resumable?: boolean;
+}
+
+/** Raw JSON frame as received from the server. */
+export interface LiveServerFrame {
+  setupComplete?: Record<string, never>;
+  serverContent?: LiveServerContent;
+  toolCall?: { functionCalls: LiveFunctionCall[] };
+  toolCallCancellation?: { ids: string[] };
+  goAway?: { timeLeft?: string };
+  sessionResumptionUpdate?: LiveSessionResumptionUpdate;
+  usageMetadata?: Record<string, unknown>;
+}
+
+/** Server frames, discriminated by `type`. */
+export type LiveServerMessage =
+  | { type: "setupComplete" }
+  | { type: "serverContent"; serverContent: LiveServerContent }
+  | { type: "toolCall"; functionCalls: LiveFunctionCall[] }
+  | { type: "toolCallCancellation"; ids: string[] }
+  | { type: "goAway"; timeLeft?: string }
+  | {
+      type: "sessionResumptionUpdate";
+      update: LiveSessionResumptionUpdate;
+    }
+  | { type: "usageMetadata"; usage: Record<string, unknown> }
+  | { type: "unknown"; frame: Record<string, unknown> };
+
+export type StartSensitivity =
+  | "START_SENSITIVITY_UNSPECIFIED"
+  | "START_SENSITIVITY_HIGH"
+  | "START_SENSITIVITY_LOW";
+
+export type EndSensitivity =
+  | "END_SENSITIVITY_UNSPECIFIED"
+  | "END_SENSITIVITY_HIGH"
+  | "END_SENSITIVITY_LOW";
+
+export type ActivityHandling =
+  | "ACTIVITY_HANDLING_UNSPECIFIED"
+  | "START_OF_ACTIVITY_INTERRUPTS"
+  | "NO_INTERRUPTION";
+
+export interface LiveRealtimeInputConfig {
+  automaticActivityDetection?: {
+    disabled?: boolean;
+    startOfSpeechSensitivity?: StartSensitivity;
+    endOfSpeechSensitivity?: EndSensitivity;
+    prefixPaddingMs?: number;
+    silenceDurationMs?: number;
+  };
+  activityHandling?: ActivityHandling;
+}
+
+/** The subset of the OpenAPI-style schema used for function parameters. */
+export type SchemaType =
+  "STRING" | "NUMBER" | "INTEGER" | "BOOLEAN" | "ARRAY" | "OBJECT";
+
+export interface Schema {
+  type: SchemaType;
+  description?: string;
+  enum?: string[];
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+}
+
+export interface LiveFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters?: Schema;
+}
+
+export type LiveTool =
+  | { googleSearch: Record<string, never> }
+  | { functionDeclarations: LiveFunctionDeclaration[] };
+
+/** Body of the first client message. */
+export interface LiveSetup {
+  model: string;
+  sessionResumption?: { handle?: string };
+  realtimeInputConfig?: LiveRealtimeInputConfig;
+  generationConfig?: {
+    responseModalities?: ("AUDIO" | "TEXT")[];
+    speechConfig?: {
+      voiceConfig?: { prebuiltVoiceConfig?: { voiceName: string } };
+    };
+  };
+  inputAudioTranscription?: Record<string, never>;
+  outputAudioTranscription?: Record<string, never>;
+  systemInstruction?: LiveContent;
+  tools?: LiveTool[];
+}
+
+export const parseServerMessage = (
+  frame: LiveServerFrame,
+): LiveServerMessage => {
+  if (frame.setupComplete) return { type: "setupComplete" };
+  if (frame.serverContent)
+    return { type: "serverContent", serverContent: frame.serverContent };
+  if (frame.toolCall)
+    return {
+      type: "toolCall",
+      functionCalls: frame.toolCall.functionCalls ?? [],
+    };
+  if (frame.toolCallCancellation)
+    return {
+      type: "toolCallCancellation",
+      ids: frame.toolCallCancellation.ids ?? [],
+    };
+  if (frame.goAway) return { type: "goAway", timeLeft: frame.goAway.timeLeft };
+  if (frame.sessionResumptionUpdate)
+    return {
+      type: "sessionResumptionUpdate",
+      update: frame.sessionResumptionUpdate,
+    };
+  if (frame.usageMetadata)
+    return { type: "usageMetadata", usage: frame.usageMetadata };
+  return { type: "unknown", frame: frame as Record<string, unknown> };
+};
@@ -0,0 +1,86 @@
+// Keeps the running meeting in sessionStorage so a page reload can pick the
+// conversation back up: the latest resumption handle plus the transcript.
+
+const STORAGE_KEY = "radio-ai:meeting";
+
+// Gemini keeps resumption handles valid for 2 hours after a session ends
+const HANDLE_TTL_MS = 2 * 60 * 60 * 1000;
+
+export interface SavedMeeting<Message = unknown> {
+  personaId: string;
+  /** Latest resumable handle, null before the server issued one. */
+  resumeHandle: string | null;
+  chatHistory: Message[];
+  /** Epoch ms of the last save. */
+  savedAt: number;
+}
+
+/**
+ * Returns the saved meeting, or null if there is none (or it is empty). An
+ * expired handle is dropped; the transcript is kept.
+ */
+export const loadMeeting = <Message = unknown>() => {
+  try {
+    const saved = JSON.parse(
+      sessionStorage.getItem(STORAGE_KEY) ?? "null",
+    ) as SavedMeeting<Message> | null;
+    if (
+      !saved ||
+      typeof saved.personaId !== "string" ||
+      !Array.isArray(saved.chatHistory)
+    ) {
+      return null;
+    }
+
+    const expired =
+      typeof saved.savedAt !== "number" ||
+      Date.now() - saved.savedAt > HANDLE_TTL_MS;
+    const resumeHandle =
+      !expired && typeof saved.resumeHandle === "string"
+        ? saved.resumeHandle
+        : null;
+
+    // Nothing worth resuming
+    if (!resumeHandle && saved.chatHistory.length === 0) return null;
+    return { ...saved, resumeHandle };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Saves the meeting. Attachment thumbnails are data URIs and can exceed the
+ * storage quota; if they do, the meeting is saved without them. Cover art
+ * lives in IndexedDB and isn't part of the meeting.
+ */
+export const saveMeeting = <
+  Message extends { attachments?: { thumbnail?: string }[] },
+>(
+  meeting: Omit<SavedMeeting<Message>, "savedAt">,
+) => {
+  const write = (chatHistory: Message[]) =>
+    sessionStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ ...meeting, chatHistory, savedAt: Date.now() }),
+    );
+
+  try {
+    write(meeting.chatHistory);
+  } catch {
+    try {
+      write(
+        meeting.chatHistory.map((msg) => ({
+          ...msg,
+          attachments: msg.attachments?.map((a) => ({
+            ...a,
+            thumbnail: undefined,
+          })),
+        })),
+      );
+    } catch (err) {
+      console.warn("Failed to save the meeting:", err);
+    }
+  }
+};
+
+export const clearMeeting = () => sessionStorage.removeItem(STORAGE_KEY);
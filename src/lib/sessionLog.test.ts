@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  SessionRecorder,
+  embedCoverImages,
+  parseSessionLog,
+} from "./sessionLog";
+
+describe("SessionRecorder transcript merging", () => {
+  let recorder: SessionRecorder;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T12:00:00Z"));
+    recorder = new SessionRecorder({
+      personaId: "alisa",
+      personaName: "Alisa",
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const events = () => recorder.toJSON().events;
+
+  it("merges chunks into one turn with start and end time", () => {
+    recorder.appendTranscript("assistant", " Hello");
+    vi.advanceTimersByTime(400);
+    recorder.appendTranscript("assistant", " there.");
+
+    expect(events()).toEqual([
+      { type: "assistant", text: "Hello there.", t: 0, endT: 400 },
+    ]);
+  });
+
+  it("starts a new turn when the speaker changes", () => {
+    recorder.appendTranscript("user", "Make it");
+    recorder.appendTranscript("user", " jazzy");
+    vi.advanceTimersByTime(1000);
+    recorder.appendTranscript("assistant", "Sure");
+    vi.advanceTimersByTime(1000);
+    recorder.appendTranscript("user", "Thanks");
+
+    expect(events()).toEqual([
+      { type: "user", source: "voice", text: "Make it jazzy", t: 0, endT: 0 },
+      { type: "assistant", text: "Sure", t: 1000, endT: 1000 },
+      { type: "user", source: "voice", text: "Thanks", t: 2000, endT: 2000 },
+    ]);
+  });
+
+  it("starts a new turn after any other event", () => {
+    recorder.appendTranscript("assistant", "One");
+    recorder.record({ type: "turnComplete" });
+    recorder.appendTranscript("assistant", "Two");
+
+    expect(events().map((e) => e.type)).toEqual([
+      "assistant",
+      "turnComplete",
+      "assistant",
+    ]);
+  });
+
+  it("does not merge voice into typed or prompt messages", () => {
+    recorder.record({ type: "user", source: "text", text: "typed" });
+    recorder.appendTranscript("user", "spoken");
+
+    expect(events()).toEqual([
+      { type: "user", source: "text", text: "typed", t: 0 },
+      { type: "user", source: "voice", text: "spoken", t: 0, endT: 0 },
+    ]);
+  });
+
+  it("ignores empty chunks", () => {
+    recorder.appendTranscript("assistant", "");
+    expect(recorder.isEmpty).toBe(true);
+  });
+});
+
+describe("parseSessionLog", () => {
+  it("reads back an exported log", () => {
+    const recorder = new SessionRecorder({
+      personaId: "alisa",
+      personaName: "Alisa",
+    });
+    recorder.appendTranscript("assistant", "Hi");
+    const log = recorder.toJSON();
+
+    expect(parseSessionLog(JSON.stringify(log))).toEqual(log);
+  });
+
+  it("drops events that don't match their type and counts them", () => {
+    const recorder = new SessionRecorder({
+      personaId: "alisa",
+      personaName: "Alisa",
+    });
+    recorder.record({ type: "toolCancelled", ids: ["c1"] });
+    recorder.record({
+      type: "grounding",
+      metadata: { webSearchQueries: ["city pop"] },
+    });
+    const log = recorder.toJSON();
+    const text = JSON.stringify({
+      ...log,
+      events: [
+        ...log.events,
+        { type: "toolCancelled", ids: "c1", t: 1 },
+        { type: "grounding", metadata: null, t: 2 },
+        { type: "user", source: "voice", t: 3 },
+        { type: "image", callId: "c1", image: "javascript:alert(1)", t: 4 },
+        {
+          type: "grounding",
+          metadata: { groundingChunks: [{ web: { uri: "javascript:x" } }] },
+          t: 5,
+        },
+        { type: "unknown", t: 6 },
+        { type: "interrupted" },
+      ],
+    });
+
+    expect(parseSessionLog(text)).toEqual({ ...log, skippedEvents: 7 });
+  });
+
+  it.each([
+    ["not json", /not valid JSON/],
+    [JSON.stringify({ format: "other" }), /not a Radio AI session/],
+    [
+      JSON.stringify({ format: "radio-ai-session", version: 99 }),
+      /Unsupported session version 99/,
+    ],
+    [
+      JSON.stringify({ format: "radio-ai-session", version: 1 }),
+      /missing its events/,
+    ],
+    [
+      JSON.stringify({
+        format: "radio-ai-session",
+        version: 1,
+        startedAt: 0,
+        events: [],
+      }),
+      /missing its persona/,
+    ],
+  ])("rejects %s", (text, message) => {
+    expect(() => parseSessionLog(text)).toThrow(message);
+  });
+});
+
+describe("embedCoverImages", () => {
+  it("inlines recorded covers and skips the ones that can't be loaded", async () => {
+    const recorder = new SessionRecorder({
+      personaId: "alisa",
+      personaName: "Alisa",
+    });
+    recorder.record({ type: "image", callId: "c1", coverId: "a" });
+    recorder.record({ type: "image", callId: "c1", coverId: "gone" });
+    recorder.record({ type: "image", callId: "c1", error: "Quota" });
+
+    const log = await embedCoverImages(recorder.toJSON(), async (coverId) => {
+      if (coverId === "gone") throw new Error("Not found");
+      return `data:image/png;base64,${coverId}`;
+    });
+
+    expect(log.events.map(({ t, ...event }) => event)).toEqual([
+      {
+        type: "image",
+        callId: "c1",
+        coverId: "a",
+        image: "data:image/png;base64,a",
+      },
+      { type: "image", callId: "c1", coverId: "gone", image: undefined },
+      { type: "image", callId: "c1", error: "Quota" },
+    ]);
+  });
+});
@@ -0,0 +1,370 @@
+import type { SimilarityResult } from "./api";
+import type { AttachmentPreview } from "./attachments";
+import type { LiveGroundingMetadata } from "./gemini/types";
+import type { ToolError } from "./tools/ToolRegistry";
+
+// A meeting as a list of timestamped events. Recorded while the session runs,
+// exported as JSON and imported back into the read-only replay view.
+
+export const SESSION_LOG_FORMAT = "radio-ai-session";
+export const SESSION_LOG_VERSION = 1;
+
+interface EventBase {
+  /** Milliseconds since the log started. */
+  t: number;
+}
+
+const CONNECTION_STATES = [
+  "connected",
+  "resumed",
+  "goAway",
+  "reconnecting",
+  "failed",
+  "closed",
+  "avatarFallback",
+  "error",
+] as const;
+
+const USER_SOURCES = ["voice", "text", "prompt"] as const;
+
+export type SessionEvent = EventBase &
+  (
+    | {
+        type: "connection";
+        state: (typeof CONNECTION_STATES)[number];
+        detail?: string;
+      }
+    | {
+        type: "user";
+        /** "prompt" is the hidden welcome message sent on connect. */
+        source: (typeof USER_SOURCES)[number];
+        text: string;
+        /** Previews of images and audio sent with a typed message. */
+        attachments?: AttachmentPreview[];
+        /** Last chunk of a streamed transcription. */
+        endT?: number;
+      }
+    | { type: "assistant"; text: string; endT?: number }
+    | { type: "thought"; text: string }
+    | {
+        type: "toolCall";
+        id: string;
+        name: string;
+        args: Record<string, unknown>;
+      }
+    | {
+        type: "toolResult";
+        id: string;
+        name: string;
+        ok: boolean;
+        result?: unknown;
+        error?: ToolError;
+        durationMs: number;
+      }
+    | { type: "toolCancelled"; ids: string[] }
+    | {
+        type: "concept";
+        callId: string;
+        conceptId: string;
+        title: string;
+        similarity?: SimilarityResult;
+      }
+    | {
+        type: "image";
+        callId: string;
+        /** Variant in the covers store; `image` is filled in on export. */
+        coverId?: string;
+        /** Data URI. */
+        image?: string;
+        error?: string;
+      }
+    | { type: "grounding"; metadata: LiveGroundingMetadata }
+    | { type: "interrupted" }
+    | { type: "turnComplete" }
+  );
+
+// Distributes Omit over the union so each member keeps its own fields
+type WithoutTime<E> = E extends EventBase ? Omit<E, "t"> : never;
+export type SessionEventInput = WithoutTime<SessionEvent>;
+
+export interface SessionLog {
+  format: typeof SESSION_LOG_FORMAT;
+  version: number;
+  id: string;
+  personaId: string;
+  personaName: string;
+  model?: string;
+  /** Epoch milliseconds. */
+  startedAt: number;
+  endedAt?: number;
+  events: SessionEvent[];
+  /** Set on import: events dropped because they didn't match their type. */
+  skippedEvents?: number;
+}
+
+/**
+ * Collects events for one meeting. Streamed transcription chunks are merged
+ * into the current user/assistant turn, so each turn is one event with its
+ * start (`t`) and end (`endT`) time.
+ */
+export class SessionRecorder {
+  private log: SessionLog;
+
+  constructor(meta: { personaId: string; personaName: string }) {
+    this.log = {
+      format: SESSION_LOG_FORMAT,
+      version: SESSION_LOG_VERSION,
+      id: crypto.randomUUID(),
+      ...meta,
+      startedAt: Date.now(),
+      events: [],
+    };
+  }
+
+  get startedAt() {
+    return this.log.startedAt;
+  }
+
+  get isEmpty() {
+    return this.log.events.length === 0;
+  }
+
+  setModel(model: string) {
+    this.log.model = model;
+  }
+
+  record(event: SessionEventInput) {
+    this.log.events.push({ ...event, t: this.now() } as SessionEvent);
+  }
+
+  /** Appends a transcription chunk to the open turn of that role. */
+  appendTranscript(role: "user" | "assistant", text: string) {
+    if (!text) return;
+    const t = this.now();
+    const last = this.log.events[this.log.events.length - 1];
+
+    if (last?.type === "assistant" && role === "assistant") {
+      last.text += text;
+      last.endT = t;
+    } else if (
+      last?.type === "user" &&
+      last.source === "voice" &&
+      role === "user"
+    ) {
+      last.text += text;
+      last.endT = t;
+    } else if (role === "assistant") {
+      this.log.events.push({ type: "assistant", text, t, endT: t });
+    } else {
+      this.log.events.push({ type: "user", source: "voice", text, t, endT: t });
+    }
+  }
+
+  end() {
+    this.log.endedAt ??= Date.now();
+  }
+
+  toJSON(): SessionLog {
+    return {
+      ...this.log,
+      // Transcription chunks often carry leading spaces
+      events: this.log.events.map((event) =>
+        event.type === "user" || event.type === "assistant"
+          ? { ...event, text: event.text.trim() }
+          : event,
+      ),
+    };
+  }
+
+  private now() {
+    return Date.now() - this.log.startedAt;
+  }
+}
+
+/**
+ * Inlines the cover images recorded by `coverId` as data URIs. Covers stay
+ * in IndexedDB during the meeting; only the export carries them. Covers
+ * that can't be loaded are left out.
+ */
+export const embedCoverImages = async (
+  log: SessionLog,
+  loadImage: (coverId: string) => Promise<string | undefined>,
+): Promise<SessionLog> => ({
+  ...log,
+  events: await Promise.all(
+    log.events.map(async (event) =>
+      event.type === "image" && event.coverId && !event.image
+        ? {
+            ...event,
+            image: await loadImage(event.coverId).catch(() => undefined),
+          }
+        : event,
+    ),
+  ),
+});
+
+export const sessionLogFilename = (log: SessionLog) =>
+  `session-${new Date(log.startedAt).toISOString().slice(0, 19).replace(/[T:]/g, "-")}.json`;
+
+type Fields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+const isOneOf =
+  <T extends string>(values: readonly T[]) =>
+  (value: unknown): value is T =>
+    values.includes(value as T);
+const optional =
+  (check: (value: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    value === undefined || check(value);
+const arrayOf =
+  (check: (value: unknown) => boolean) =>
+  (value: unknown): boolean =>
+    Array.isArray(value) && value.every(check);
+
+// Imported files end up in <img src> and <a href>, so only image data URIs
+// and web links get through
+const isImageDataUri = (value: unknown) =>
+  isString(value) && value.startsWith("data:image/");
+const isWebUrl = (value: unknown) =>
+  isString(value) && /^https?:\/\//i.test(value);
+
+const isAttachmentPreview = (value: unknown) =>
+  isRecord(value) &&
+  isOneOf(["image", "audio"])(value.kind) &&
+  isString(value.name) &&
+  isString(value.mimeType) &&
+  optional(isImageDataUri)(value.thumbnail) &&
+  optional(isNumber)(value.duration);
+
+const isToolError = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.code) &&
+  isString(value.message) &&
+  optional(isStringArray)(value.details);
+
+const isSimilarity = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.status) &&
+  isNumber(value.score) &&
+  optional(
+    arrayOf(
+      (neighbor) =>
+        isRecord(neighbor) &&
+        isString(neighbor.title) &&
+        isNumber(neighbor.score),
+    ),
+  )(value.neighbors);
+
+const isGroundingChunk = (value: unknown) =>
+  isRecord(value) &&
+  optional(
+    (web) =>
+      isRecord(web) &&
+      optional(isWebUrl)(web.uri) &&
+      optional(isString)(web.title),
+  )(value.web);
+
+/** Field checks per event type, matching the members of `SessionEvent`. */
+const EVENT_CHECKS: Record<SessionEvent["type"], (event: Fields) => boolean> = {
+  connection: (e) =>
+    isOneOf(CONNECTION_STATES)(e.state) && optional(isString)(e.detail),
+  user: (e) =>
+    isOneOf(USER_SOURCES)(e.source) &&
+    isString(e.text) &&
+    optional(arrayOf(isAttachmentPreview))(e.attachments) &&
+    optional(isNumber)(e.endT),
+  assistant: (e) => isString(e.text) && optional(isNumber)(e.endT),
+  thought: (e) => isString(e.text),
+  toolCall: (e) => isString(e.id) && isString(e.name) && isRecord(e.args),
+  toolResult: (e) =>
+    isString(e.id) &&
+    isString(e.name) &&
+    typeof e.ok === "boolean" &&
+    optional(isToolError)(e.error) &&
+    isNumber(e.durationMs),
+  toolCancelled: (e) => isStringArray(e.ids),
+  concept: (e) =>
+    isString(e.callId) &&
+    isString(e.conceptId) &&
+    isString(e.title) &&
+    optional(isSimilarity)(e.similarity),
+  image: (e) =>
+    isString(e.callId) &&
+    optional(isString)(e.coverId) &&
+    optional(isImageDataUri)(e.image) &&
+    optional(isString)(e.error),
+  grounding: (e) =>
+    isRecord(e.metadata) &&
+    optional(isStringArray)(e.metadata.webSearchQueries) &&
+    optional(arrayOf(isGroundingChunk))(e.metadata.groundingChunks),
+  interrupted: () => true,
+  turnComplete: () => true,
+};
+
+const isSessionEvent = (value: unknown): value is SessionEvent =>
+  isRecord(value) &&
+  isNumber(value.t) &&
+  Object.hasOwn(EVENT_CHECKS, value.type as string) &&
+  EVENT_CHECKS[value.type as SessionEvent["type"]](value);
+
+/**
+ * Parses an exported file. Throws with a readable message if it is not one.
+ * Events that don't match the fields of their type are dropped and counted
+ * in `skippedEvents`.
+ */
+export const parseSessionLog = (text: string): SessionLog => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!isRecord(data) || data.format !== SESSION_LOG_FORMAT) {
+    throw new Error("The file is not a Radio AI session export.");
+  }
+  if (!isNumber(data.version) || data.version > SESSION_LOG_VERSION) {
+    throw new Error(
+      `Unsupported session version ${data.version}. This app reads version ${SESSION_LOG_VERSION}.`,
+    );
+  }
+  if (!Array.isArray(data.events) || !isNumber(data.startedAt)) {
+    throw new Error("The session file is missing its events.");
+  }
+  if (
+    !isString(data.id) ||
+    !isString(data.personaId) ||
+    !isString(data.personaName)
+  ) {
+    throw new Error("The session file is missing its persona.");
+  }
+
+  const events = data.events.filter(isSessionEvent);
+  const skippedEvents = data.events.length - events.length;
+  return {
+    format: SESSION_LOG_FORMAT,
+    version: data.version,
+    id: data.id,
+    personaId: data.personaId,
+    personaName: data.personaName,
+    ...(isString(data.model) && { model: data.model }),
+    startedAt: data.startedAt,
+    ...(isNumber(data.endedAt) && { endedAt: data.endedAt }),
+    events,
+    ...(skippedEvents > 0 && { skippedEvents }),
+  };
+};
+
+/** "m:ss" offset for the replay timeline. */
+export const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
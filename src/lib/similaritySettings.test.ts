@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SIMILARITY_SETTINGS,
+  normalizeSimilaritySettings,
+  similarityBand,
+} from "./similaritySettings";
+
+describe("normalizeSimilaritySettings", () => {
+  it("keeps valid settings", () => {
+    const settings = { acceptBelow: 0.25, rejectAt: 0.7, topK: 3 };
+    expect(normalizeSimilaritySettings(settings)).toEqual(settings);
+  });
+
+  it("falls back to the defaults", () => {
+    expect(normalizeSimilaritySettings(null)).toEqual(
+      DEFAULT_SIMILARITY_SETTINGS,
+    );
+    expect(
+      normalizeSimilaritySettings({ acceptBelow: 2, rejectAt: 0.7, topK: 50 }),
+    ).toEqual(DEFAULT_SIMILARITY_SETTINGS);
+  });
+
+  it("drops thresholds as a pair when they cross", () => {
+    expect(
+      normalizeSimilaritySettings({ acceptBelow: 0.9, rejectAt: 0.5, topK: 4 }),
+    ).toEqual({ ...DEFAULT_SIMILARITY_SETTINGS, topK: 4 });
+    expect(
+      normalizeSimilaritySettings({ acceptBelow: 0.6, rejectAt: 0.6, topK: 4 }),
+    ).toEqual({ ...DEFAULT_SIMILARITY_SETTINGS, topK: 4 });
+  });
+});
+
+describe("similarityBand", () => {
+  const thresholds = { acceptBelow: 0.4, rejectAt: 0.8 };
+
+  it.each([
+    [0, "accept"],
+    [0.39, "accept"],
+    [0.4, "review"],
+    [0.79, "review"],
+    [0.8, "reject"],
+    [1, "reject"],
+  ])("puts %s in %s", (score, band) => {
+    expect(similarityBand(score, thresholds)).toBe(band);
+  });
+});
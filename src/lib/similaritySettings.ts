@@ -0,0 +1,74 @@
+// Gap analysis settings for this workspace (the browser profile): where
+// similarities_check draws the ACCEPT and REJECT lines and how many of the
+// nearest existing concepts it returns. Sent with every check, so the backend
+// defaults (SIMILARITY_*) only apply when nothing is saved.
+
+export interface SimilaritySettings {
+  /** Scores below this are a creative gap (ACCEPT). */
+  acceptBelow: number;
+  /** Scores at or above this repeat an existing album (REJECT). */
+  rejectAt: number;
+  /** Nearest existing concepts returned with each check. */
+  topK: number;
+}
+
+export type SimilarityBand = "accept" | "review" | "reject";
+
+export const DEFAULT_SIMILARITY_SETTINGS: SimilaritySettings = {
+  acceptBelow: 0.4,
+  rejectAt: 0.8,
+  topK: 5,
+};
+
+export const THRESHOLD_RANGE = { min: 0, max: 1, step: 0.05 };
+export const TOP_K_RANGE = { min: 1, max: 10, step: 1 };
+
+const STORAGE_KEY = "radio-ai:similarity-settings";
+
+const inRange = (value: unknown, range: { min: number; max: number }) =>
+  typeof value === "number" &&
+  Number.isFinite(value) &&
+  value >= range.min &&
+  value <= range.max;
+
+/**
+ * Fills in defaults and drops invalid values. Thresholds are kept or dropped
+ * as a pair, so `acceptBelow` always stays below `rejectAt` (the backend
+ * rejects anything else).
+ */
+export const normalizeSimilaritySettings = (
+  value: Partial<SimilaritySettings> | null | undefined,
+): SimilaritySettings => {
+  const d = DEFAULT_SIMILARITY_SETTINGS;
+  const thresholdsValid =
+    inRange(value?.acceptBelow, THRESHOLD_RANGE) &&
+    inRange(value?.rejectAt, THRESHOLD_RANGE) &&
+    value.acceptBelow < value.rejectAt;
+  return {
+    acceptBelow: thresholdsValid ? value.acceptBelow : d.acceptBelow,
+    rejectAt: thresholdsValid ? value.rejectAt : d.rejectAt,
+    topK: inRange(value?.topK, TOP_K_RANGE) ? Math.round(value.topK) : d.topK,
+  };
+};
+
+export const loadSimilaritySettings = () => {
+  try {
+    return normalizeSimilaritySettings(
+      JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"),
+    );
+  } catch {
+    return DEFAULT_SIMILARITY_SETTINGS;
+  }
+};
+
+export const saveSimilaritySettings = (settings: SimilaritySettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+export const similarityBand = (
+  score: number,
+  {
+    acceptBelow,
+    rejectAt,
+  }: Pick<SimilaritySettings, "acceptBelow" | "rejectAt">,
+): SimilarityBand =>
+  score >= rejectAt ? "reject" : score < acceptBelow ? "accept" : "review";
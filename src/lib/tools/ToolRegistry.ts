@@ -0,0 +1,206 @@
+import type { ReactNode } from "react";
+import type {
+  LiveFunctionCall,
+  LiveFunctionDeclaration,
+  LiveFunctionResponse,
+} from "../gemini/types";
+import { validateSchema, type ObjectSchema } from "./schema";
+
+export type ToolErrorCode =
+  "UNKNOWN_TOOL" | "INVALID_ARGUMENTS" | "HANDLER_ERROR";
+
+/** Sent back to the model as `response.error` so it can correct itself. */
+export interface ToolError {
+  code: ToolErrorCode;
+  message: string;
+  details?: string[];
+}
+
+export interface ToolOutcome<Result = unknown> {
+  ok: boolean;
+  result?: Result;
+  error?: ToolError;
+}
+
+export interface ToolCallContext {
+  id: string;
+  name: string;
+  /** Aborted when the server sends toolCallCancellation for this call. */
+  signal: AbortSignal;
+}
+
+export interface ToolRenderProps<
+  Args = Record<string, unknown>,
+  Result = unknown,
+> {
+  args: Args;
+  status: "running" | "done" | "error";
+  result?: Result;
+  error?: ToolError;
+}
+
+export interface ToolDefinition<
+  Args = Record<string, unknown>,
+  Result = unknown,
+> {
+  name: string;
+  description: string;
+  /** Sent to the model in the declaration and used to validate its args. */
+  parameters: ObjectSchema;
+  handler: (args: Args, call: ToolCallContext) => Promise<Result>;
+  /** Optional chat bubble for this call. Tools without one stay invisible. */
+  render?: (props: ToolRenderProps<Args, Result>) => ReactNode;
+}
+
+/**
+ * Lets tools with their own arg and result types share one registry. The
+ * handler and the renderer only ever see args that passed `parameters`.
+ */
+export const defineTool = <Args, Result>(tool: ToolDefinition<Args, Result>) =>
+  tool as unknown as ToolDefinition;
+
+export interface ToolExecutionHooks {
+  onStart?: (call: LiveFunctionCall, tool: ToolDefinition) => void;
+  onSettled?: (
+    call: LiveFunctionCall,
+    outcome: ToolOutcome,
+    tool: ToolDefinition | undefined,
+  ) => void;
+}
+
+/**
+ * Holds the function tools exposed to Gemini. Produces the declarations for
+ * the setup message and turns a `toolCall` into `functionResponses`.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private inFlight = new Map<string, AbortController>();
+
+  register(...tools: ToolDefinition[]) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Tool "${tool.name}" is already registered.`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+    return this;
+  }
+
+  get(name: string) {
+    return this.tools.get(name);
+  }
+
+  /** `enabled` limits the result to those tool names (e.g. a persona's tools). */
+  declarations(enabled?: string[]): LiveFunctionDeclaration[] {
+    return [...this.tools.values()]
+      .filter((tool) => !enabled || enabled.includes(tool.name))
+      .map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parameters,
+      }));
+  }
+
+  /** Aborts in-flight calls; their responses are not sent back. */
+  cancel(ids: string[]) {
+    for (const id of ids) {
+      this.inFlight.get(id)?.abort();
+    }
+  }
+
+  /**
+   * Runs all calls of one toolCall message concurrently. Unknown tools,
+   * invalid args and handler failures become structured `error` responses.
+   * Tools outside `enabled` are treated as unknown.
+   */
+  async execute(
+    calls: LiveFunctionCall[],
+    hooks: ToolExecutionHooks = {},
+    enabled?: string[],
+  ): Promise<LiveFunctionResponse[]> {
+    const settled = await Promise.all(
+      calls.map(async (call) => {
+        const controller = new AbortController();
+        this.inFlight.set(call.id, controller);
+        try {
+          const outcome = await this.run(
+            call,
+            controller.signal,
+            hooks,
+            enabled,
+          );
+          hooks.onSettled?.(call, outcome, this.tools.get(call.name));
+          return { call, outcome, cancelled: controller.signal.aborted };
+        } finally {
+          this.inFlight.delete(call.id);
+        }
+      }),
+    );
+
+    return settled
+      .filter(({ cancelled }) => !cancelled)
+      .map(({ call, outcome }) => ({
+        id: call.id,
+        name: call.name,
+        response: outcome.ok
+          ? { result: outcome.result }
+          : { error: outcome.error },
+      }));
+  }
+
+  private async run(
+    call: LiveFunctionCall,
+    signal: AbortSignal,
+    hooks: ToolExecutionHooks,
+    enabled?: string[],
+  ): Promise<ToolOutcome> {
+    const available = [...this.tools.keys()].filter(
+      (name) => !enabled || enabled.includes(name),
+    );
+    const tool = available.includes(call.name)
+      ? this.tools.get(call.name)
+      : undefined;
+    if (!tool) {
+      return {
+        ok: false,
+        error: {
+          code: "UNKNOWN_TOOL",
+          message: `Unknown tool "${call.name}". Available tools: ${available.join(", ") || "none"}`,
+        },
+      };
+    }
+
+    const args = call.args ?? {};
+    const problems = validateSchema(tool.parameters, args);
+    if (problems.length > 0) {
+      return {
+        ok: false,
+        error: {
+          code: "INVALID_ARGUMENTS",
+          message: `Invalid arguments for "${call.name}". Fix them and call again.`,
+          details: problems,
+        },
+      };
+    }
+
+    hooks.onStart?.(call, tool);
+
+    try {
+      const result = await tool.handler(args, {
+        id: call.id,
+        name: call.name,
+        signal,
+      });
+      return { ok: true, result };
+    } catch (err) {
+      console.error(`Tool "${call.name}" failed:`, err);
+      return {
+        ok: false,
+        error: {
+          code: "HANDLER_ERROR",
+          message: err instanceof Error ? err.message : String(err),
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Validation of the args the model sends back against a tool's parameter schema.
+import type { Schema, SchemaType } from "../gemini/types";
+
+export type { Schema, SchemaType };
+
+export interface ObjectSchema extends Schema {
+  type: "OBJECT";
+  properties: Record<string, Schema>;
+}
+
+const typeMatches = (type: SchemaType, value: unknown) => {
+  switch (type) {
+    case "STRING":
+      return typeof value === "string";
+    case "NUMBER":
+      return typeof value === "number" && Number.isFinite(value);
+    case "INTEGER":
+      return Number.isInteger(value);
+    case "BOOLEAN":
+      return typeof value === "boolean";
+    case "ARRAY":
+      return Array.isArray(value);
+    case "OBJECT":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+  }
+};
+
+/**
+ * Validates `value` against `schema` and returns a list of problems
+ * (empty when valid). Paths are reported as `args.field[0].sub`.
+ */
+export const validateSchema = (
+  schema: Schema,
+  value: unknown,
+  path = "args",
+): string[] => {
+  if (!typeMatches(schema.type, value)) {
+    return [`${path} must be ${schema.type.toLowerCase()}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  if (schema.type === "ARRAY" && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      errors.push(...validateSchema(schema.items!, item, `${path}[${i}]`));
+    });
+  }
+
+  if (schema.type === "OBJECT") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined || obj[key] === null) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+      if (obj[key] === undefined || obj[key] === null) continue;
+      errors.push(...validateSchema(propSchema, obj[key], `${path}.${key}`));
+    }
+  }
+
+  return errors;
+};
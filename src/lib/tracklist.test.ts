@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { formatTracklistIssues, parseTracklist } from "./tracklist";
+
+const tracks = (count: number, line: (n: number) => string) =>
+  Array.from({ length: count }, (_, i) => line(i + 1)).join("\n");
+
+describe("parseTracklist", () => {
+  it("reads the format from the system prompt", () => {
+    const { tracks: parsed, issues } = parseTracklist(
+      tracks(5, (n) => `Track ${n}: "Song ${n}" - [Intro ${n}] - [synth, 80s]`),
+    );
+
+    expect(issues).toEqual([]);
+    expect(parsed).toHaveLength(5);
+    expect(parsed[0]).toEqual({
+      number: 1,
+      title: "Song 1",
+      description: "Intro 1",
+      styleTags: ["synth", "80s"],
+    });
+  });
+
+  it.each([
+    ["1. ", `"Night Drive" - [Neon] - [synthwave]`],
+    ["1) ", `“Night Drive” – [Neon] – [synthwave]`],
+    ["Track 1 ", `'Night Drive' — [Neon] — [synthwave]`],
+    ["Track 1: ", `Night Drive - Neon - synthwave`],
+  ])("reads %s%s", (header, body) => {
+    const [track] = parseTracklist(`${header}${body}`).tracks;
+
+    expect(track).toEqual({
+      number: 1,
+      title: "Night Drive",
+      description: "Neon",
+      styleTags: ["synthwave"],
+    });
+  });
+
+  it("keeps apostrophes inside a quoted title", () => {
+    const { tracks: parsed } = parseTracklist(
+      [
+        `Track 1: "Rock 'n' Roll Heart" - [Jukebox stomp] - [rockabilly]`,
+        `Track 2: 'Rock 'n' Roll Heart' - [Jukebox stomp] - [rockabilly]`,
+        `Track 3: "Don't Stop" - [Drive] - [disco]`,
+      ].join("\n"),
+    );
+
+    expect(parsed.map((track) => track.title)).toEqual([
+      "Rock 'n' Roll Heart",
+      "Rock 'n' Roll Heart",
+      "Don't Stop",
+    ]);
+  });
+
+  it("keeps the dashes of an unquoted title before the brackets", () => {
+    const [track] = parseTracklist(
+      "Track 1: Rise - Fall - Rise - [Three-act arc] - [prog, rock]",
+    ).tracks;
+
+    expect(track.title).toBe("Rise - Fall - Rise");
+    expect(track.description).toBe("Three-act arc");
+    expect(track.styleTags).toEqual(["prog", "rock"]);
+  });
+
+  it("reports unquoted titles it can't tell from the description", () => {
+    const { issues } = parseTracklist(
+      "Track 1: Rise - Fall - A three-act arc - prog",
+    );
+
+    expect(formatTracklistIssues(issues)).toContain(
+      'Track 1: Too many " - " separators to tell the title from the description. Quote the title and bracket the description.',
+    );
+  });
+
+  it("reports text it drops outside the brackets", () => {
+    const { tracks: parsed, issues } = parseTracklist(
+      `Track 1: "Halo" - [Choir] - slow build - [ambient]`,
+    );
+
+    expect(parsed[0].description).toBe("Choir");
+    expect(formatTracklistIssues(issues)).toContain(
+      'Track 1: Ignored text outside the brackets: "slow build".',
+    );
+  });
+
+  it('splits "Track N" and numbered run-ons', () => {
+    const { tracks: parsed } = parseTracklist(
+      `Track 1: "A" - [a] - [x] Track 2: "B" - [b] - [x]\n3. "C" - [c] - [x] 4. "D" - [d] - [x] 5) "E" - [e] - [x]`,
+    );
+
+    expect(parsed.map((track) => [track.number, track.title])).toEqual([
+      [1, "A"],
+      [2, "B"],
+      [3, "C"],
+      [4, "D"],
+      [5, "E"],
+    ]);
+  });
+
+  it("doesn't split numbers inside titles, brackets or out of sequence", () => {
+    const { tracks: parsed } = parseTracklist(
+      `1. "Part 2. Reprise" - [Side 2. opener] - [rock] 7. not a track`,
+    );
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0].title).toBe("Part 2. Reprise");
+    expect(parsed[0].description).toBe("Side 2. opener");
+  });
+
+  it("joins continuation lines onto the previous description", () => {
+    const [track] = parseTracklist(
+      `Track 1: "Tide" - [Slow swell] - [dub]\nwith tape echo`,
+    ).tracks;
+
+    expect(track.description).toBe("Slow swell with tape echo");
+  });
+
+  it("reports gaps, missing fields and the track count", () => {
+    const { issues } = parseTracklist(`Track 1: "A" - [a] - [x]\nTrack 3: "C"`);
+
+    expect(formatTracklistIssues(issues)).toEqual([
+      "Track 3: Expected track 2 but found track 3.",
+      "Track 3: Missing description.",
+      "Track 3: Missing style tags.",
+      "Found 2 tracks, expected 5-20.",
+    ]);
+  });
+
+  it("marks only the track count and missing titles as blocking", () => {
+    const { issues } = parseTracklist(
+      tracks(5, (n) =>
+        n === 2 ? "Track 2: - [b] - [c]" : `Track ${n}: "T${n}"`,
+      ),
+    );
+
+    expect(
+      formatTracklistIssues(issues.filter((issue) => issue.blocking)),
+    ).toEqual(["Track 2: Missing title."]);
+    expect(issues.filter((issue) => !issue.blocking)).not.toHaveLength(0);
+  });
+});
@@ -0,0 +1,242 @@
+// Parses the tracklist string the model sends to print_album_concept.
+// Expected format (from the system prompt), one track per line:
+//   Track 1: "Title" - [Description] - [Style Tags]
+// The parser is tolerant: "1." / "1)" numbering, curly or missing quotes,
+// missing brackets, en/em dashes and several tracks on one line all work.
+// Anything it had to guess or could not read is reported as an issue.
+
+export interface Track {
+  number: number;
+  title: string;
+  description: string;
+  styleTags: string[];
+}
+
+export interface TracklistIssue {
+  /** Track number the issue refers to, if any. */
+  track?: number;
+  message: string;
+  /**
+   * The tracklist can't be used as is (wrong track count, a track without a
+   * title). Everything else was recovered and is only a warning.
+   */
+  blocking?: boolean;
+}
+
+export interface ParsedTracklist {
+  tracks: Track[];
+  issues: TracklistIssue[];
+}
+
+export const MIN_TRACKS = 5;
+export const MAX_TRACKS = 20;
+
+// "Track 1:", "Track 1", "1.", "1)" or "1 -". A bare leading number
+// ("1980s synths...") is not a header.
+const HEADER =
+  /^(?:track\s*(\d{1,3})\s*[:.)\-–—]?|(\d{1,3})\s*[:.)]|(\d{1,3})\s+[-–—])\s*(.*)$/i;
+const SEPARATOR = /\s+[-–—]\s+/;
+// A title closes with the kind of quote it opened with. Single quotes double
+// as apostrophes ('Rock 'n' Roll'), so they only close before a separator,
+// a bracket or the end of the line.
+const DOUBLE_QUOTED = /^["“”](.+?)["“”](?=\s|$|[-–—,:])\s*(.*)$/;
+const SINGLE_QUOTED = /^['‘](.+?)['’](?=\s*(?:$|[-–—,:[]))\s*(.*)$/;
+const BRACKETED = /\[([^\]]*)\]/g;
+
+const splitTags = (raw: string) =>
+  raw
+    .split(/[,;|/]/)
+    .map((tag) => tag.trim().replace(/^#/, ""))
+    .filter(Boolean);
+
+const stripLeadingSeparator = (text: string) =>
+  text.replace(/^[-–—:]\s*/, "").trim();
+
+/**
+ * Splits "1. A 2. B" run-ons before the next track number in sequence, as
+ * long as it isn't inside a quoted title or a bracket group.
+ */
+const splitNumberedRunOn = (line: string) => {
+  const header = /^(\d{1,3})\s*[.)]\s/.exec(line);
+  if (!header) return [line];
+
+  const parts: string[] = [];
+  let next = Number(header[1]) + 1;
+  let start = 0;
+  let inQuote = false;
+  let depth = 0;
+  for (let i = 1; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' || char === "“" || char === "”") {
+      inQuote = char === "“" ? true : char === "”" ? false : !inQuote;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (
+      !inQuote &&
+      depth === 0 &&
+      /\s/.test(line[i - 1]) &&
+      line.startsWith(String(next), i) &&
+      /^\s*[.)]\s/.test(line.slice(i + String(next).length))
+    ) {
+      parts.push(line.slice(start, i).trim());
+      start = i;
+      next++;
+    }
+  }
+  parts.push(line.slice(start).trim());
+  return parts;
+};
+
+/** Splits "Track 1: ... Track 2: ..." and "1. ... 2. ..." run-ons into lines. */
+const toLines = (text: string) =>
+  text
+    .replace(/\r/g, "")
+    .replace(/\s+(?=Track\s*\d{1,3}\s*[:.)])/gi, "\n")
+    .split("\n")
+    .flatMap((line) => splitNumberedRunOn(line.trim()))
+    .map((line) => line.trim().replace(/^[*•]\s*/, ""))
+    .filter((line) => line && !/^\[?new line\]?$/i.test(line));
+
+interface ParsedBody {
+  title: string;
+  description: string;
+  styleTags: string[];
+  /** Something the parser had to guess at or leave out. */
+  issue?: string;
+}
+
+const parseBody = (body: string): ParsedBody => {
+  const quoted = DOUBLE_QUOTED.exec(body) ?? SINGLE_QUOTED.exec(body);
+  let title: string;
+  let rest: string;
+  if (quoted) {
+    title = quoted[1].trim();
+    rest = stripLeadingSeparator(quoted[2]);
+  } else if (body.includes("[") && !body.startsWith("[")) {
+    // Unquoted title: everything before the first bracket group, dashes
+    // included ("Rise - Fall - [...]")
+    const bracket = body.indexOf("[");
+    title = body
+      .slice(0, bracket)
+      .replace(/\s*[-–—:]\s*$/, "")
+      .trim();
+    rest = body.slice(bracket);
+  } else {
+    const [first, ...others] = body.split(SEPARATOR);
+    title = first.replace(/^\[|\]$/g, "").trim();
+    rest = others.join(" - ");
+  }
+
+  const groups = [...rest.matchAll(BRACKETED)].map((m) => m[1].trim());
+  if (groups.length >= 2) {
+    const outside = rest
+      .replace(BRACKETED, " ")
+      .replace(/[-–—.,:]/g, " ")
+      .trim();
+    return {
+      title,
+      description: groups.slice(0, -1).join(" "),
+      styleTags: splitTags(groups[groups.length - 1]),
+      ...(outside && {
+        issue: `Ignored text outside the brackets: "${outside.replace(/\s+/g, " ")}".`,
+      }),
+    };
+  }
+
+  // No (or one) bracket group: fall back to dash separated segments,
+  // the last one being the style tags.
+  const segments = rest
+    .split(SEPARATOR)
+    .map((s) => s.replace(/^\[|\]\.?$/g, "").trim())
+    .filter(Boolean);
+  if (segments.length > 2) {
+    // Title or description has a dash of its own; which one is a guess
+    return {
+      title,
+      description: segments.slice(0, -1).join(" - "),
+      styleTags: splitTags(segments[segments.length - 1]),
+      issue: `Too many " - " separators to tell the title from the description. Quote the title and bracket the description.`,
+    };
+  }
+  if (segments.length === 2) {
+    return {
+      title,
+      description: segments[0],
+      styleTags: splitTags(segments[1]),
+    };
+  }
+
+  return { title, description: segments[0] ?? "", styleTags: [] };
+};
+
+export const parseTracklist = (text: string): ParsedTracklist => {
+  const tracks: Track[] = [];
+  const issues: TracklistIssue[] = [];
+
+  for (const line of toLines(text ?? "")) {
+    const header = HEADER.exec(line);
+    const number = header ? Number(header[1] ?? header[2] ?? header[3]) : NaN;
+    const body = header?.[4].trim() ?? "";
+
+    if (!header || !body) {
+      // Continuation of the previous track's description
+      const last = tracks[tracks.length - 1];
+      if (last && !header) {
+        last.description = [last.description, line].filter(Boolean).join(" ");
+      } else {
+        issues.push({ message: `Could not read line: "${line}"` });
+      }
+      continue;
+    }
+
+    const { title, description, styleTags, issue } = parseBody(body);
+    if (issue) issues.push({ track: number, message: issue });
+    tracks.push({
+      number,
+      title: title.replace(/\.$/, ""),
+      description: description.replace(/\.$/, ""),
+      styleTags,
+    });
+  }
+
+  tracks.forEach((track, i) => {
+    if (track.number !== i + 1) {
+      issues.push({
+        track: track.number,
+        message: `Expected track ${i + 1} but found track ${track.number}.`,
+      });
+    }
+    if (!track.title) {
+      issues.push({
+        track: track.number,
+        message: "Missing title.",
+        blocking: true,
+      });
+    }
+    if (!track.description) {
+      issues.push({ track: track.number, message: "Missing description." });
+    }
+    if (track.styleTags.length === 0) {
+      issues.push({ track: track.number, message: "Missing style tags." });
+    }
+  });
+
+  if (tracks.length < MIN_TRACKS || tracks.length > MAX_TRACKS) {
+    issues.push({
+      message: `Found ${tracks.length} tracks, expected ${MIN_TRACKS}-${MAX_TRACKS}.`,
+      blocking: true,
+    });
+  }
+
+  return { tracks, issues };
+};
+
+/** One line per issue, for tool responses and logs. */
+export const formatTracklistIssues = (issues: TracklistIssue[]) =>
+  issues.map((issue) =>
+    issue.track !== undefined
+      ? `Track ${issue.track}: ${issue.message}`
+      : issue.message,
+  );
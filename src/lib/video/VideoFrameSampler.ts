@@ -0,0 +1,112 @@
+// Samples a camera or screen-share stream into JPEG frames for Gemini's
+// realtime video input. Gemini looks at frames, not a video stream, so a
+// frame or two per second is enough to react to a sketch or a mood board.
+
+export type VideoSourceKind = "camera" | "screen";
+
+export interface VideoFrameSamplerOptions {
+  /** Frames per second. */
+  frameRate?: number;
+  /** Longest side of a frame in pixels; larger sources are scaled down. */
+  maxSize?: number;
+  /** JPEG quality, 0-1. */
+  quality?: number;
+}
+
+export const FRAME_RATES = [0.5, 1, 2];
+export const DEFAULT_FRAME_RATE = 1;
+
+const STORAGE_KEY = "radio-ai:video-frame-rate";
+
+export const loadFrameRate = () => {
+  const saved = Number(localStorage.getItem(STORAGE_KEY));
+  return FRAME_RATES.includes(saved) ? saved : DEFAULT_FRAME_RATE;
+};
+
+export const saveFrameRate = (frameRate: number) => {
+  localStorage.setItem(STORAGE_KEY, String(frameRate));
+};
+
+/**
+ * Asks for the camera or a screen/window/tab. Rejects with a `NotAllowedError`
+ * when the user declines or cancels the picker.
+ */
+export const openVideoStream = (kind: VideoSourceKind) =>
+  kind === "camera"
+    ? navigator.mediaDevices.getUserMedia({
+        video: { width: { ideal: 1280 }, height: { ideal: 720 } },
+      })
+    : navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+
+/**
+ * Draws the stream onto a canvas at `frameRate` and hands each frame to
+ * `onFrame` as base64 JPEG. Doesn't own the stream: stopping the sampler
+ * leaves its tracks running.
+ */
+export class VideoFrameSampler {
+  private readonly video = document.createElement("video");
+  private readonly canvas = document.createElement("canvas");
+  private readonly maxSize: number;
+  private readonly quality: number;
+  private frameRate: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly stream: MediaStream,
+    private readonly onFrame: (jpeg: string) => void,
+    {
+      frameRate = DEFAULT_FRAME_RATE,
+      maxSize = 768,
+      quality = 0.7,
+    }: VideoFrameSamplerOptions = {},
+  ) {
+    this.frameRate = frameRate;
+    this.maxSize = maxSize;
+    this.quality = quality;
+  }
+
+  async start() {
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = this.stream;
+    await this.video.play();
+    this.schedule();
+  }
+
+  setFrameRate(frameRate: number) {
+    this.frameRate = frameRate;
+    if (this.timer !== null) this.schedule();
+  }
+
+  stop() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+    this.video.srcObject = null;
+  }
+
+  /** Returns the current frame as base64 JPEG, or null before the first frame. */
+  capture() {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) return null;
+
+    const scale = Math.min(1, this.maxSize / Math.max(videoWidth, videoHeight));
+    this.canvas.width = Math.round(videoWidth * scale);
+    this.canvas.height = Math.round(videoHeight * scale);
+    this.canvas
+      .getContext("2d")
+      .drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+
+    const dataUrl = this.canvas.toDataURL("image/jpeg", this.quality);
+    return dataUrl.slice(dataUrl.indexOf(",") + 1);
+  }
+
+  private schedule() {
+    if (this.timer !== null) clearInterval(this.timer);
+    const tick = () => {
+      const frame = this.capture();
+      if (frame) this.onFrame(frame);
+    };
+    tick();
+    this.timer = setInterval(tick, 1000 / this.frameRate);
+  }
+}
@@ -0,0 +1,118 @@
+import type {
+  ActivityHandling,
+  EndSensitivity,
+  LiveRealtimeInputConfig,
+  StartSensitivity,
+} from "./gemini/types";
+
+// How the user's turns are detected. Sent as `realtimeInputConfig` in the
+// setup message, so changes take effect on the next (or resumed) connection.
+
+export type TalkMode = "auto" | "pushToTalk";
+
+export interface VoiceSettings {
+  /** "auto" uses Gemini's voice activity detection, "pushToTalk" a held key/button. */
+  mode: TalkMode;
+  startSensitivity: StartSensitivity;
+  endSensitivity: EndSensitivity;
+  /** Speech needed before a start of speech is committed. */
+  prefixPaddingMs: number;
+  /** Silence needed before an end of speech is committed. */
+  silenceDurationMs: number;
+  /** Whether the user talking interrupts (barges in on) the model. */
+  activityHandling: ActivityHandling;
+  /**
+   * Length of the mic audio chunks sent to Gemini. Shorter chunks lower the
+   * latency, longer ones send fewer messages. Applies right away.
+   */
+  micFrameMs: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  mode: "auto",
+  startSensitivity: "START_SENSITIVITY_LOW",
+  endSensitivity: "END_SENSITIVITY_LOW",
+  prefixPaddingMs: 20,
+  silenceDurationMs: 200,
+  activityHandling: "START_OF_ACTIVITY_INTERRUPTS",
+  micFrameMs: 60,
+};
+
+export const PREFIX_PADDING_RANGE = { min: 0, max: 1000, step: 10 };
+export const SILENCE_DURATION_RANGE = { min: 100, max: 3000, step: 50 };
+// The capture worklet accepts 20-250 ms frames
+export const MIC_FRAME_RANGE = { min: 20, max: 250, step: 10 };
+
+const STORAGE_KEY = "radio-ai:voice-settings";
+
+const clamp = (value: unknown, range: { min: number; max: number }) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(range.max, Math.max(range.min, Math.round(value)))
+    : undefined;
+
+const oneOf = <T extends string>(value: unknown, options: T[]) =>
+  options.includes(value as T) ? (value as T) : undefined;
+
+/** Fills in defaults and drops out-of-range values (e.g. from old storage). */
+export const normalizeVoiceSettings = (
+  value: Partial<VoiceSettings> | null | undefined,
+): VoiceSettings => {
+  const d = DEFAULT_VOICE_SETTINGS;
+  return {
+    mode: oneOf(value?.mode, ["auto", "pushToTalk"]) ?? d.mode,
+    startSensitivity:
+      oneOf(value?.startSensitivity, [
+        "START_SENSITIVITY_HIGH",
+        "START_SENSITIVITY_LOW",
+      ]) ?? d.startSensitivity,
+    endSensitivity:
+      oneOf(value?.endSensitivity, [
+        "END_SENSITIVITY_HIGH",
+        "END_SENSITIVITY_LOW",
+      ]) ?? d.endSensitivity,
+    prefixPaddingMs:
+      clamp(value?.prefixPaddingMs, PREFIX_PADDING_RANGE) ?? d.prefixPaddingMs,
+    silenceDurationMs:
+      clamp(value?.silenceDurationMs, SILENCE_DURATION_RANGE) ??
+      d.silenceDurationMs,
+    activityHandling:
+      oneOf(value?.activityHandling, [
+        "START_OF_ACTIVITY_INTERRUPTS",
+        "NO_INTERRUPTION",
+      ]) ?? d.activityHandling,
+    micFrameMs: clamp(value?.micFrameMs, MIC_FRAME_RANGE) ?? d.micFrameMs,
+  };
+};
+
+export const loadVoiceSettings = () => {
+  try {
+    return normalizeVoiceSettings(
+      JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null"),
+    );
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveVoiceSettings = (settings: VoiceSettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+export const toRealtimeInputConfig = (
+  settings: VoiceSettings,
+): LiveRealtimeInputConfig =>
+  settings.mode === "pushToTalk"
+    ? {
+        // The client sends activityStart/activityEnd instead
+        automaticActivityDetection: { disabled: true },
+        activityHandling: settings.activityHandling,
+      }
+    : {
+        automaticActivityDetection: {
+          disabled: false,
+          startOfSpeechSensitivity: settings.startSensitivity,
+          endOfSpeechSensitivity: settings.endSensitivity,
+          prefixPaddingMs: settings.prefixPaddingMs,
+          silenceDurationMs: settings.silenceDurationMs,
+        },
+        activityHandling: settings.activityHandling,
+      };
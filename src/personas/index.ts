@@ -0,0 +1,20 @@
+import type { Persona } from "./types";
+
+export type { Persona };
+
+// Every `*.persona.ts` in this folder is picked up automatically.
+const modules = import.meta.glob<{ default: Persona }>("./*.persona.ts", {
+  eager: true,
+});
+
+export const PERSONAS: Persona[] = Object.values(modules)
+  .map((m) => m.default)
+  .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+export const DEFAULT_PERSONA_ID =
+  import.meta.env.VITE_DEFAULT_PERSONA || PERSONAS[0]?.id;
+
+export const getPersona = (id: string | null | undefined) =>
+  PERSONAS.find((p) => p.id === id) ??
+  PERSONAS.find((p) => p.id === DEFAULT_PERSONA_ID) ??
+  PERSONAS[0];
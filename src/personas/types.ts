@@ -0,0 +1,32 @@
+/**
+ * A studio role the app can run. Each `*.persona.ts` file in this folder
+ * default-exports one of these; see ./index.ts.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  role: string;
+  /** Sort order in the persona picker. */
+  order?: number;
+  systemPrompt: string;
+  /** Gemini Live prebuilt voice. */
+  voiceName: string;
+  /**
+   * Simli face. When unset, the backend's SIMLI_FACE_ID is used, so personas
+   * without one share that face. None of the bundled personas set it.
+   */
+  simliFaceId?: string;
+  /**
+   * First user turn sent after setupComplete. Skipped on resumption and for
+   * meetings restored after a reload.
+   */
+  welcomeMessage: string;
+  /** Function tools from the registry this persona may call. */
+  tools: string[];
+  googleSearch: boolean;
+  ui: {
+    /** Start overlay headline, e.g. "Creative Producer is waiting!" */
+    waitingTitle: string;
+    startLabel: string;
+  };
+}
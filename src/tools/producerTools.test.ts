@@ -0,0 +1,337 @@
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WebSocket, WebSocketServer } from "ws";
+import { ScenarioRunner } from "../../server/mock/scenarioRunner.cjs";
+import { GeminiConnection } from "../lib/gemini/GeminiConnection";
+import { GeminiLiveSession } from "../lib/gemini/GeminiLiveSession";
+import type { LiveFunctionResponse } from "../lib/gemini/types";
+import { ToolRegistry } from "../lib/tools/ToolRegistry";
+import { createProducerTools } from "./producerTools";
+
+// Full producer flow against the scripted mock Live server, wired the way
+// SimliLiveGemini wires it: welcome -> get_recent_concepts ->
+// similarities_check (REJECT, then ACCEPT) -> print_album_concept.
+
+const WELCOME = "Hi! Introduce yourself.";
+
+const recentConcepts = [
+  {
+    title: "Neon Tide",
+    genre: "Synthwave",
+    description: "A night drive by the sea.",
+  },
+  { title: "Dust Choir", genre: "Desert Blues", description: "" },
+];
+
+const rejected = {
+  title: "Neon Tide Returns",
+  genre: "Synthwave",
+  description: "Another night drive by the sea.",
+  tracklist: 'Track 1: "Harbor" - [Slow intro] - [Synthwave]',
+};
+
+const accepted = {
+  title: "Glacier Radio",
+  genre: "Ambient Techno",
+  description: "Ice cracking under a frozen harbor.",
+  tracklist: 'Track 1: "Thaw" - [Ice crackle] - [Ambient]',
+};
+
+const printed = {
+  ...accepted,
+  tracklist:
+    'Track 1: "Thaw Signal" - [Ice crackle and a sub pulse] - [Ambient Techno]\n' +
+    'Track 2: "Harbor Without Ships" - [Bowed cello drones] - [Modern Classical]\n' +
+    'Track 3: "Blue Hour Beacon" - [Fading arpeggio] - [Ambient]\n' +
+    'Track 4: "Pack Ice" - [Broken beat under static] - [IDM]\n' +
+    'Track 5: "Last Ferry" - [Slow swell to silence] - [Drone]',
+  instrumental: true,
+  art_prompt: "A frozen harbor at blue hour",
+};
+
+const scenario = {
+  name: "producer-flow",
+  steps: [
+    { wait: "turn" },
+    { say: "Let me look at our recent work." },
+    { toolCall: { name: "get_recent_concepts", args: {} }, id: "call-recent" },
+    { toolCall: { name: "similarities_check", args: rejected }, id: "call-1" },
+    { toolCall: { name: "similarities_check", args: accepted }, id: "call-2" },
+    { toolCall: { name: "print_album_concept", args: printed }, id: "call-3" },
+    { say: "Glacier Radio is saved." },
+    { turnComplete: true },
+  ],
+};
+
+// Workspace thresholds, stricter than the backend defaults
+const similaritySettings = { acceptBelow: 0.3, rejectAt: 0.75, topK: 2 };
+const thresholds = { acceptBelow: 0.3, rejectAt: 0.75 };
+const neighbors = [
+  { title: "Neon Tide", genre: "Synthwave", score: 0.91 },
+  { title: "Dust Choir", genre: "Desert Blues", score: 0.08 },
+];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// The backend (/api routes), with a REJECT for the first check and an ACCEPT after
+const backend = vi.fn(async (path: string, init?: RequestInit) => {
+  if (path.startsWith("/api/user-concepts/recent")) {
+    return json(recentConcepts);
+  }
+  if (path === "/api/albums/similarities-check") {
+    const { title } = JSON.parse(String(init?.body));
+    return json(
+      title === rejected.title
+        ? {
+            status: "REJECT",
+            reason: "Repetitive theme",
+            score: 0.91,
+            thresholds,
+            neighbors,
+          }
+        : { status: "ACCEPT", reason: "Unique creative gap", score: 0.12 },
+    );
+  }
+  if (path === "/api/user-concepts" && init?.method === "POST") {
+    return json({ ok: true }, 201);
+  }
+  return json({ error: "Not found" }, 404);
+});
+
+describe("producer tool flow over Gemini Live", () => {
+  let wss: WebSocketServer;
+  let runner: ScenarioRunner;
+  let connection: GeminiConnection;
+  let received: string[];
+
+  beforeEach(async () => {
+    vi.stubGlobal("WebSocket", WebSocket);
+    vi.stubGlobal("fetch", backend);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    backend.mockClear();
+    received = [];
+
+    wss = new WebSocketServer({ port: 0 });
+    wss.on("connection", (ws) => {
+      runner = new ScenarioRunner(scenario, {
+        send: (frame: object) => ws.send(JSON.stringify(frame)),
+        close: (code: number, reason: string) => ws.close(code, reason),
+        timeScale: 0,
+      });
+      ws.on("message", (data) => {
+        const message = JSON.parse(data.toString());
+        if (message.clientContent) {
+          received.push(message.clientContent.turns[0].parts[0].text);
+        }
+        runner.handleMessage(message);
+      });
+    });
+    await new Promise((resolve) => wss.once("listening", resolve));
+  });
+
+  afterEach(async () => {
+    connection?.stop();
+    await new Promise((resolve) => wss.close(resolve));
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("answers every tool call with the exact tool responses", async () => {
+    const onConceptPrinted = vi.fn();
+    const registry = new ToolRegistry().register(
+      ...createProducerTools({
+        onConceptPrinted,
+        similaritySettings: () => similaritySettings,
+      }),
+    );
+    const { port } = wss.address() as AddressInfo;
+
+    connection = new GeminiConnection({
+      createSession: async () =>
+        new GeminiLiveSession({
+          url: `ws://localhost:${port}/?access_token=test`,
+          setup: {
+            model: "models/test",
+            tools: [{ functionDeclarations: registry.declarations() }],
+          },
+        }),
+    });
+
+    connection.on("ready", () => connection.sendText(WELCOME));
+    connection.on("toolCall", async (calls) => {
+      const responses = await registry.execute(calls);
+      if (responses.length > 0) connection.sendToolResponse(responses);
+    });
+    const done = new Promise<void>((resolve) =>
+      connection.on("turnComplete", () => resolve()),
+    );
+
+    connection.start();
+    await done;
+
+    expect(received).toEqual([WELCOME]);
+    expect(runner.toolResponses).toEqual<LiveFunctionResponse[]>([
+      {
+        id: "call-recent",
+        name: "get_recent_concepts",
+        response: {
+          result: [
+            { title: "Neon Tide", description: "A night drive by the sea." },
+            { title: "Dust Choir", description: "No description" },
+          ],
+        },
+      },
+      {
+        id: "call-1",
+        name: "similarities_check",
+        // The nearest concepts tell the model what it is too close to
+        response: {
+          result: {
+            status: "REJECT",
+            reason: "Repetitive theme",
+            score: 0.91,
+            thresholds,
+            neighbors,
+          },
+        },
+      },
+      {
+        id: "call-2",
+        name: "similarities_check",
+        response: {
+          result: {
+            status: "ACCEPT",
+            reason: "Unique creative gap",
+            score: 0.12,
+          },
+        },
+      },
+      {
+        id: "call-3",
+        name: "print_album_concept",
+        response: { result: { ...printed, track_count: 5 } },
+      },
+    ]);
+
+    // The printed concept carries the last check for its title
+    expect(onConceptPrinted).toHaveBeenCalledWith(
+      printed,
+      expect.objectContaining({ id: "call-3", name: "print_album_concept" }),
+      { status: "ACCEPT", reason: "Unique creative gap", score: 0.12 },
+    );
+
+    // Backend requests, in order
+    expect(
+      backend.mock.calls.map(([path, init]) => [
+        path,
+        init?.body ? JSON.parse(String(init.body)) : undefined,
+      ]),
+    ).toEqual([
+      ["/api/user-concepts/recent?limit=10", undefined],
+      [
+        "/api/albums/similarities-check",
+        {
+          title: rejected.title,
+          genre: rejected.genre,
+          description: rejected.description,
+          tracklist: rejected.tracklist,
+          thresholds,
+          topK: 2,
+        },
+      ],
+      [
+        "/api/albums/similarities-check",
+        {
+          title: accepted.title,
+          genre: accepted.genre,
+          description: accepted.description,
+          tracklist: accepted.tracklist,
+          thresholds,
+          topK: 2,
+        },
+      ],
+      ["/api/user-concepts", printed],
+    ]);
+  });
+
+  it("doesn't save a concept with the wrong number of tracks", async () => {
+    const onConceptPrinted = vi.fn();
+    const registry = new ToolRegistry().register(
+      ...createProducerTools({ onConceptPrinted }),
+    );
+
+    const [{ response }] = await registry.execute([
+      {
+        id: "call-short",
+        name: "print_album_concept",
+        args: { ...printed, tracklist: 'Track 1: "Thaw" - [Ice] - [Ambient]' },
+      },
+    ]);
+
+    expect(response.result).toMatchObject({
+      track_count: 1,
+      saved: false,
+      tracklist_issues: ["Found 1 tracks, expected 5-20."],
+      note: expect.stringMatching(/^The concept was not saved/),
+    });
+    expect(onConceptPrinted).not.toHaveBeenCalled();
+    expect(backend).not.toHaveBeenCalled();
+  });
+
+  it("saves a concept with recoverable tracklist issues and returns them as warnings", async () => {
+    const onConceptPrinted = vi.fn();
+    const registry = new ToolRegistry().register(
+      ...createProducerTools({ onConceptPrinted }),
+    );
+
+    const [{ response }] = await registry.execute([
+      {
+        id: "call-loose",
+        name: "print_album_concept",
+        args: {
+          ...printed,
+          tracklist: printed.tracklist.replace(" - [Drone]", ""),
+        },
+      },
+    ]);
+
+    expect(response.result).toMatchObject({
+      track_count: 5,
+      tracklist_warnings: ["Track 5: Missing style tags."],
+    });
+    expect(response.result).not.toHaveProperty("saved");
+    expect(onConceptPrinted).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends invalid arguments back as a structured error", async () => {
+    const registry = new ToolRegistry().register(
+      ...createProducerTools({ onConceptPrinted: vi.fn() }),
+    );
+
+    const [response] = await registry.execute([
+      {
+        id: "call-bad",
+        name: "similarities_check",
+        args: { title: "No genre" },
+      },
+    ]);
+
+    expect(response).toEqual({
+      id: "call-bad",
+      name: "similarities_check",
+      response: {
+        error: {
+          code: "INVALID_ARGUMENTS",
+          message:
+            'Invalid arguments for "similarities_check". Fix them and call again.',
+          details: expect.arrayContaining([expect.stringMatching(/genre/)]),
+        },
+      },
+    });
+    expect(backend).not.toHaveBeenCalled();
+  });
+});
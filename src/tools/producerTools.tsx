@@ -0,0 +1,248 @@
+import {
+  getRecentConcepts,
+  saveConcept,
+  similaritiesCheck,
+  type Concept,
+  type RecentConcept,
+  type SimilarityResult,
+} from "../lib/api";
+import {
+  defineTool,
+  type ToolCallContext,
+  type ToolDefinition,
+} from "../lib/tools/ToolRegistry";
+import type { ObjectSchema } from "../lib/tools/schema";
+import {
+  MAX_TRACKS,
+  MIN_TRACKS,
+  formatTracklistIssues,
+  parseTracklist,
+} from "../lib/tracklist";
+import type { SimilaritySettings } from "../lib/similaritySettings";
+import ConceptCard from "../components/ConceptCard";
+import SimilarityCard from "../components/SimilarityCard";
+
+export interface ProducerToolDeps {
+  /**
+   * Called once a concept is printed, e.g. to store it and start cover art
+   * generation. `similarity` is the last similarities_check for that title.
+   */
+  onConceptPrinted: (
+    concept: Concept,
+    call: ToolCallContext,
+    similarity: SimilarityResult | undefined,
+  ) => void;
+  /** Workspace thresholds and top-k sent with each similarities_check. */
+  similaritySettings?: () => SimilaritySettings;
+}
+
+type PrintResult = Concept & {
+  track_count: number;
+  /** Only set when the concept was refused. */
+  saved?: false;
+  /** Why the concept was refused. */
+  tracklist_issues?: string[];
+  /** What the parser recovered from; the concept was saved anyway. */
+  tracklist_warnings?: string[];
+  note?: string;
+};
+
+type SimilarityArgs = Pick<
+  Concept,
+  "title" | "genre" | "description" | "tracklist"
+>;
+
+const conceptProperties = {
+  title: {
+    type: "STRING",
+    description: "The title of the album",
+  },
+  genre: {
+    type: "STRING",
+    description: "The genre fusion",
+  },
+  description: {
+    type: "STRING",
+    description: "Detailed concept summary",
+  },
+  tracklist: {
+    type: "STRING",
+    description: "List of tracks in the album",
+  },
+} satisfies ObjectSchema["properties"];
+
+const formatConcept = (concept: Concept) =>
+  `📀 NEW CONCEPT:\n${concept.title} (${concept.genre})\nDescription:\n${concept.description}\nTracklist:\n${concept.tracklist}\nAlbum art prompt:\n${concept.art_prompt}`;
+
+const TRACK_FORMAT = 'Track N: "Title" - [Description] - [Style Tags]';
+
+export const createProducerTools = (
+  deps: ProducerToolDeps,
+): ToolDefinition[] => {
+  // Last similarities_check result per title, attached to the printed concept
+  const similarityByTitle = new Map<string, SimilarityResult>();
+  const titleKey = (title: string) => title.trim().toLowerCase();
+
+  const printAlbumConcept: ToolDefinition<Concept, PrintResult> = {
+    name: "print_album_concept",
+    description: "Saves a finalized musical album concept to the database.",
+    parameters: {
+      type: "OBJECT",
+      properties: {
+        ...conceptProperties,
+        instrumental: {
+          type: "BOOLEAN",
+          description: "Whether the album is instrumental or has vocals",
+        },
+        art_prompt: {
+          type: "STRING",
+          description: "Visual prompt for cover art",
+        },
+        tracklist: {
+          type: "STRING",
+          description: `List of tracks in the album, one per line: ${TRACK_FORMAT}`,
+        },
+        atmosphere: {
+          type: "STRING",
+          description: "Sensory keywords for the album's atmosphere",
+        },
+        instrumentation: {
+          type: "STRING",
+          description: "Specific instruments and tools used across the album",
+        },
+        vocals: {
+          type: "STRING",
+          description: "Vocal style, or Instrumental",
+        },
+      },
+      required: [
+        "title",
+        "genre",
+        "description",
+        "tracklist",
+        "instrumental",
+        "art_prompt",
+      ],
+    },
+    handler: async (concept, call) => {
+      console.log("Producer is printing a concept...");
+      console.log(formatConcept(concept));
+
+      const { tracks, issues } = parseTracklist(concept.tracklist);
+
+      if (issues.length > 0) {
+        console.warn("Tracklist issues:", formatTracklistIssues(issues));
+      }
+
+      // A wrong track count or an untitled track goes back to the model
+      // unsaved, so each correction doesn't leave another concept (and
+      // cover) behind. What the parser recovered from is saved as is.
+      if (issues.some((issue) => issue.blocking)) {
+        return {
+          ...concept,
+          track_count: tracks.length,
+          saved: false,
+          tracklist_issues: formatTracklistIssues(issues),
+          note: `The concept was not saved: the tracklist needs ${MIN_TRACKS}-${MAX_TRACKS} titled tracks in the format ${TRACK_FORMAT}. Call print_album_concept again with a corrected tracklist.`,
+        };
+      }
+
+      // Save in the background, the model doesn't need to wait for it
+      saveConcept(concept);
+      deps.onConceptPrinted(
+        concept,
+        call,
+        similarityByTitle.get(titleKey(concept.title)),
+      );
+
+      return {
+        ...concept,
+        track_count: tracks.length,
+        ...(issues.length > 0 && {
+          tracklist_warnings: formatTracklistIssues(issues),
+          note: `Saved. Some tracks don't follow the format ${TRACK_FORMAT}; they were read as listed in tracklist_warnings.`,
+        }),
+      };
+    },
+    render: ({ args, result }) => {
+      const { tracks, issues } = parseTracklist(args.tracklist);
+      return (
+        <ConceptCard
+          saved={result?.saved !== false}
+          title={args.title}
+          genre={args.genre}
+          description={args.description}
+          instrumental={args.instrumental}
+          artPrompt={args.art_prompt}
+          tracks={tracks}
+          issues={issues}
+        />
+      );
+    },
+  };
+
+  const getRecentConceptsTool: ToolDefinition<
+    Record<string, never>,
+    RecentConcept[]
+  > = {
+    name: "get_recent_concepts",
+    description:
+      "Retrieves the recent album concepts (Title, Genre, Description) from the local database.",
+    parameters: { type: "OBJECT", properties: {} },
+    handler: async () => {
+      console.log("Producer is requesting recent concepts...");
+
+      const concepts = await getRecentConcepts(10);
+
+      console.log(`Sent ${concepts.length} recent concepts to Producer.`);
+      return concepts;
+    },
+  };
+
+  const similaritiesCheckTool: ToolDefinition<
+    SimilarityArgs,
+    SimilarityResult
+  > = {
+    name: "similarities_check",
+    description:
+      "Checks for similarities between album concepts to avoid duplication. Returns the status (ACCEPT, REVIEW or REJECT), the score against the closest existing concept and the nearest existing concepts with their scores.",
+    parameters: {
+      type: "OBJECT",
+      properties: conceptProperties,
+      required: ["title", "genre", "description", "tracklist"],
+    },
+    handler: async (concept) => {
+      console.log(
+        `Producer requesting similarities check:\n${concept.title} (${concept.genre})`,
+      );
+
+      const result = await similaritiesCheck(
+        concept.title,
+        concept.genre,
+        concept.description,
+        concept.tracklist,
+        deps.similaritySettings?.(),
+      );
+
+      console.log(
+        `Similarity Result: [${result?.status}]: ${result?.reason}, Score: ${result?.score}`,
+      );
+      similarityByTitle.set(titleKey(concept.title), result);
+      return result;
+    },
+    render: ({ args, status, result }) => (
+      <SimilarityCard
+        title={args.title}
+        genre={args.genre}
+        status={status}
+        result={result}
+      />
+    ),
+  };
+
+  return [
+    defineTool(printAlbumConcept),
+    defineTool(getRecentConceptsTool),
+    defineTool(similaritiesCheckTool),
+  ];
+};
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -7,9 +8,6 @@ export default defineConfig(({mode}) => {
   const env = loadEnv(mode, '.', '');
   return {
     plugins: [react(), tailwindcss()],
-    define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-    },
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),
@@ -21,12 +19,19 @@ export default defineConfig(({mode}) => {
           target: `http://localhost:${env.PORT || 3001}`,
           changeOrigin: true,
           secure: false,
+          // The mock Gemini Live server is a WebSocket under /api
+          ws: true,
         },
       },
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modify—file watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
     },
+    test: {
+      // Unit tests sit next to their modules as *.test.ts(x)
+      include: ['src/**/*.test.{ts,tsx}'],
+      environment: 'node',
+    },
     build: {
       chunkSizeWarningLimit: 1000,
       rollupOptions: {
@@ -35,7 +40,6 @@ export default defineConfig(({mode}) => {
             // Vendor libraries
             'vendor-react': ['react', 'react-dom'],
             'vendor-simli': ['simli-client'],
-            'vendor-google': ['@google/genai'],
             'vendor-motion': ['motion', 'lucide-react'],
           },
         },